@@ -3,14 +3,22 @@ import Fastify from 'fastify';
 import chatRoutes from './routes/chat';
 import modelsRoutes from './routes/models';
 import mcpRoutes from './routes/mcp';
-import { loadMCPClientByConfig } from './utils/mcp';
-import { initializeMCP } from './providers';
+import usageRoutes from './routes/usage';
+import keysRoutes from './routes/keys';
+import { loadMCPClientByConfig, watchMCPConfig } from './utils/mcp';
+import { initializeMCP, reloadMCPConfig, shutdownMCPServers } from './providers';
 import { MCPConfig } from './utils/mcp';
+import { RateLimitConfig, initializeRateLimits, loadRateLimitConfig } from './utils/rate_limit';
+import { FallbackConfig, initializeFallbacks, loadFallbackConfig } from './utils/fallback';
+import { ModelAliasConfig, initializeModelAliases, loadModelAliases } from './utils/model_aliases';
 import { Server as HttpServer } from 'http';
 
 export interface ServerConfig {
   port?: number;
   mcpConfig?: MCPConfig;
+  rateLimits?: RateLimitConfig;
+  fallbacks?: FallbackConfig;
+  modelAliases?: ModelAliasConfig;
 }
 
 export interface Server {
@@ -21,6 +29,7 @@ export interface Server {
 export async function createServer(config: ServerConfig = {}): Promise<Server> {
   const server = Fastify({ logger: true });
   const port = config.port || 3000;
+  let stopWatchingConfig: (() => void) | null = null;
 
   try {
     // 如果提供了 MCP 配置，则初始化它
@@ -32,19 +41,35 @@ export async function createServer(config: ServerConfig = {}): Promise<Server> {
       if (mcpConfig) {
         initializeMCP(mcpConfig);
       }
+      // 配置来自文件时，修改文件后自动生效
+      stopWatchingConfig = watchMCPConfig(reloadMCPConfig);
     }
 
+    // 限流配置：优先使用传入的配置，否则读取 rate_limits.json
+    initializeRateLimits(config.rateLimits || await loadRateLimitConfig());
+
+    // 模型别名：优先使用传入的配置，否则读取 model_aliases.json（备用模型链可以引用别名，需先加载）
+    initializeModelAliases(config.modelAliases || await loadModelAliases());
+
+    // 备用模型链：优先使用传入的配置，否则读取 fallbacks.json
+    initializeFallbacks(config.fallbacks || await loadFallbackConfig());
+
     // 为所有路由添加 /v1 前缀
     await server.register(chatRoutes, { prefix: '/v1/chat' });
     await server.register(modelsRoutes, { prefix: '/v1' });
     await server.register(mcpRoutes, { prefix: '/v1' });
+    await server.register(usageRoutes, { prefix: '/v1' });
+    await server.register(keysRoutes, { prefix: '/v1' });
 
     await server.listen({ port, host: '0.0.0.0' });
     
     return {
       url: `http://localhost:${port}`,
       close: async () => {
+        stopWatchingConfig?.();
         await server.close();
+        // 关闭所有 MCP 连接，避免子进程泄漏
+        await shutdownMCPServers();
       }
     };
   } catch (err) {
@@ -58,6 +83,13 @@ if (import.meta.url === `file://${process.argv[1]}`) {
   createServer()
     .then(server => {
       console.log('Server is running at', server.url);
+
+      // 退出时关闭 MCP 子进程
+      const shutdown = () => {
+        server.close().finally(() => process.exit(0));
+      };
+      process.once('SIGINT', shutdown);
+      process.once('SIGTERM', shutdown);
     })
     .catch(err => {
     console.error('Failed to start server:', err);
@@ -1,48 +1,254 @@
 import Anthropic from '@anthropic-ai/sdk';
+import type {
+  MessageParam,
+  Message as AnthropicResponse,
+  Tool,
+  ToolUseBlock,
+  ToolResultBlockParam
+} from '@anthropic-ai/sdk/resources/messages';
 import { BaseProvider, ChatParams } from './types';
 import type { Message as BaseMessage } from './types';
 import type { Message } from '../types';
 import modelsMeta from '../models_meta.json';
+import { MAX_TOOL_LOOPS, ToolExecutionOptions, buildToolRegistry, executeToolCalls, stringifyToolResult, toolResultEvent } from './mcp_tools';
+import { ToolRegistry } from './tool_registry';
+import { UsageTracker, fromAnthropicUsage } from '../utils/usage';
+import { withRetry } from '../utils/retry';
+import { ChunkBuilder, SSE_DONE, fromAnthropicStopReason, sseEvent } from './chunks';
+import { fromAnthropicMessage } from './completions';
+import { toAnthropicParams, toAnthropicToolChoice } from './generation';
+import { mergeConsecutiveMessages, splitSystemMessages } from './messages';
+import { toAnthropicResponseTool } from './structured_output';
 
 type AnthropicMessage = {
   role: 'user' | 'assistant';
   content: string;
 };
 
-function convertMessages(messages: Message[] | BaseMessage[]): AnthropicMessage[] {
-  return messages.filter(msg => msg.role !== 'system').map(msg => ({
-    role: msg.role === 'assistant' || msg.role === 'user' ? msg.role : 'user',
+/**
+ * system 消息放到顶层 system 参数，其他非 assistant 角色按 user 处理，
+ * 并合并相邻的同角色消息（Anthropic 要求 user/assistant 交替）
+ */
+function convertMessages(messages: Message[] | BaseMessage[]): { system?: string; messages: AnthropicMessage[] } {
+  const { system, messages: rest } = splitSystemMessages<Message | BaseMessage>(messages);
+  const converted = rest.map((msg): AnthropicMessage => ({
+    role: msg.role === 'assistant' ? 'assistant' : 'user',
     content: msg.content
   }));
+  return { system, messages: mergeConsecutiveMessages(converted) };
+}
+
+function convertTools(registry: ToolRegistry): Tool[] {
+  return registry.list().map(tool => ({
+    name: tool.name,
+    description: tool.description,
+    input_schema: tool.inputSchema as Tool.InputSchema
+  }));
 }
 
 export class AnthropicProvider implements BaseProvider {
-  async chat({ model, messages, apiKey }: ChatParams) {
-    const client = new Anthropic({ apiKey });
-    return client.messages.create({ model, max_tokens: 1024, messages: convertMessages(messages) });
+  /**
+   * 执行本轮 tool_use 块，并把 assistant 回复与 tool_result 追加到对话历史
+   */
+  private async runToolUses(
+    response: AnthropicResponse,
+    registry: ToolRegistry,
+    history: MessageParam[],
+    options: ToolExecutionOptions = {}
+  ) {
+    const toolUses = response.content.filter((block): block is ToolUseBlock => block.type === 'tool_use');
+    const results = await executeToolCalls(registry, toolUses.map(block => ({
+      id: block.id,
+      name: block.name,
+      arguments: (block.input || {}) as Record<string, any>
+    })), options);
+
+    history.push({ role: 'assistant', content: response.content as MessageParam['content'] });
+    history.push({
+      role: 'user',
+      content: results.map((result): ToolResultBlockParam => ({
+        type: 'tool_result',
+        tool_use_id: result.id,
+        content: stringifyToolResult(result),
+        is_error: result.error !== undefined
+      }))
+    });
+
+    return results;
+  }
+
+  /**
+   * 本轮请求的 tools 和 tool_choice。请求中的 tool_choice 只作用于第一轮，避免强制调用工具导致无限循环；
+   * 结构化输出时每轮都必须调用工具，模型调用 responseTool 时结束
+   */
+  private toolParams(params: ChatParams, tools: Tool[], responseTool: Tool | undefined, withTools: boolean, firstRound: boolean) {
+    const offered = [...(withTools ? tools : []), ...(responseTool ? [responseTool] : [])];
+    if (offered.length === 0) {
+      return {};
+    }
+    if (responseTool) {
+      return {
+        tools: offered,
+        tool_choice: offered.length > 1 ? { type: 'any' as const } : { type: 'tool' as const, name: responseTool.name }
+      };
+    }
+    return {
+      tools: offered,
+      ...(firstRound && params.tool_choice ? { tool_choice: toAnthropicToolChoice(params.tool_choice) } : {})
+    };
+  }
+
+  /** 是否已调用结构化输出的工具 */
+  private hasAnswered(response: AnthropicResponse, responseTool?: Tool) {
+    return !!responseTool && response.content.some(block => block.type === 'tool_use' && block.name === responseTool.name);
   }
 
-  async chatStream({ model, messages, apiKey }: ChatParams, stream: NodeJS.WritableStream) {
-    const client = new Anthropic({ apiKey });
-    const encoder = new TextEncoder();
-    
-    const res = await client.messages.stream({ model, max_tokens: 1024, messages: convertMessages(messages) });
-    for await (const chunk of res) {
-      if (chunk.type === 'content_block_delta' && chunk.delta?.type === 'text_delta') {
-        const event = {
+  async chat(params: ChatParams) {
+    const { model, messages, apiKey, signal } = params;
+    // 重试由 withRetry 统一处理
+    const client = new Anthropic({ apiKey, maxRetries: 0 });
+    const registry = await buildToolRegistry(params);
+    const tools = convertTools(registry);
+    const { system, messages: converted } = convertMessages(messages);
+    const history: MessageParam[] = converted;
+    const usage = new UsageTracker('anthropic', params);
+    const generation = { ...toAnthropicParams(params, model), ...(system ? { system } : {}) };
+    // 结构化输出通过强制调用工具实现
+    const responseTool = toAnthropicResponseTool(params.response_format);
+
+    // 中途出错或请求取消时，已消耗的用量同样计入
+    try {
+      let loop = 0;
+      while (loop++ < MAX_TOOL_LOOPS) {
+        const response = await withRetry('Anthropic chat', () => client.messages.create({
           model,
-          created_at: new Date().toISOString(),
-          message: {
-            role: 'assistant',
-            content: chunk.delta.text
-          },
-          done: false
-        };
-        stream.write(`data: ${JSON.stringify(event)}\n\n`);
+          messages: history,
+          ...generation,
+          ...this.toolParams(params, tools, responseTool, true, loop === 1)
+        }, { signal }), signal);
+        usage.add(fromAnthropicUsage(response.usage));
+
+        // 没有工具调用或已给出结构化输出，直接返回结果
+        if (this.hasAnswered(response, responseTool) || response.stop_reason !== 'tool_use' || tools.length === 0) {
+          return fromAnthropicMessage(response, usage.finish(), responseTool?.name);
+        }
+
+        await this.runToolUses(response, registry, history, { signal });
       }
+
+      // 达到最大循环次数，不再提供工具，让模型给出最终回答
+      const response = await withRetry('Anthropic chat', () => client.messages.create({
+        model,
+        messages: history,
+        ...generation,
+        ...this.toolParams(params, tools, responseTool, false, false)
+      }, { signal }), signal);
+      usage.add(fromAnthropicUsage(response.usage));
+      return fromAnthropicMessage(response, usage.finish(), responseTool?.name);
+    } finally {
+      usage.finish();
+    }
+  }
+
+  async chatStream(params: ChatParams, stream: NodeJS.WritableStream) {
+    const { model, messages, apiKey, signal } = params;
+    const client = new Anthropic({ apiKey, maxRetries: 0 });
+    const registry = await buildToolRegistry(params, true);
+    const tools = convertTools(registry);
+    const { system, messages: converted } = convertMessages(messages);
+    const history: MessageParam[] = converted;
+    const usage = new UsageTracker('anthropic', params);
+    const chunks = new ChunkBuilder(model);
+    const generation = { ...toAnthropicParams(params, model), ...(system ? { system } : {}) };
+    const responseTool = toAnthropicResponseTool(params.response_format);
+
+    const send = (payload: any) => {
+      stream.write(sseEvent(payload));
+    };
+
+    const streamOnce = async (withTools: boolean, firstRound = false) => {
+      // 等到连接建立后再读取，连接失败时可以重试
+      const res = await withRetry('Anthropic stream', async () => {
+        const messageStream = client.messages.stream({
+          model,
+          messages: history,
+          ...generation,
+          ...this.toolParams(params, tools, responseTool, withTools, firstRound)
+        }, { signal });
+        // 错误由 withResponse 和后续读取抛出，这里避免 SDK 报告未处理的 rejection
+        messageStream.done().catch(() => {});
+        await messageStream.withResponse();
+        return messageStream;
+      }, signal);
+      // 转换为 OpenAI chunk，tool_use 块对应 tool_calls（按本轮中的顺序编号），
+      // 结构化输出工具的参数作为 content 输出
+      let toolIndex = -1;
+      let answerIndex: number | null = null;
+      for await (const chunk of res) {
+        if (chunk.type === 'message_start') {
+          send(chunks.delta({ role: 'assistant', content: '' }));
+        } else if (chunk.type === 'content_block_start' && chunk.content_block.type === 'tool_use' && chunk.content_block.name === responseTool?.name) {
+          answerIndex = chunk.index;
+        } else if (chunk.type === 'content_block_start' && chunk.content_block.type === 'tool_use') {
+          toolIndex++;
+          send(chunks.delta({
+            tool_calls: [{
+              index: toolIndex,
+              id: chunk.content_block.id,
+              type: 'function',
+              function: { name: chunk.content_block.name, arguments: '' }
+            }]
+          }));
+        } else if (chunk.type === 'content_block_delta' && chunk.delta.type === 'text_delta') {
+          send(chunks.delta({ content: chunk.delta.text }));
+        } else if (chunk.type === 'content_block_delta' && chunk.delta.type === 'input_json_delta' && chunk.index === answerIndex) {
+          send(chunks.delta({ content: chunk.delta.partial_json }));
+        } else if (chunk.type === 'content_block_delta' && chunk.delta.type === 'input_json_delta') {
+          send(chunks.delta({ tool_calls: [{ index: toolIndex, function: { arguments: chunk.delta.partial_json } }] }));
+        } else if (chunk.type === 'message_delta') {
+          send(chunks.delta({}, answerIndex !== null ? 'stop' : fromAnthropicStopReason(chunk.delta.stop_reason)));
+        }
+      }
+      const response = await res.finalMessage();
+      usage.add(fromAnthropicUsage(response.usage));
+      return response;
+    };
+
+    // 中途出错或请求取消时，已消耗的用量同样计入
+    try {
+      let loop = 0;
+      let finished = false;
+      while (loop++ < MAX_TOOL_LOOPS) {
+        const reqStartTs = Date.now();
+        const response = await streamOnce(true, loop === 1);
+
+        if (this.hasAnswered(response, responseTool) || response.stop_reason !== 'tool_use' || tools.length === 0) {
+          finished = true;
+          break;
+        }
+
+        const results = await this.runToolUses(response, registry, history, {
+          requireApproval: !params.isYolo,
+          caller: params.caller,
+          send,
+          signal
+        });
+        results.forEach(result => send(toolResultEvent(result)));
+
+        const duration = ((Date.now() - reqStartTs) / 1000).toFixed(1);
+        send({ type: 'loop_info', loop, duration });
+      }
+
+      if (!finished) {
+        await streamOnce(false);
+      }
+
+      send(chunks.usage(usage.finish()));
+      stream.write(SSE_DONE);
+      stream.end();
+    } finally {
+      usage.finish();
     }
-    stream.write('data: [DONE]\n\n');
-    stream.end();
   }
 
   async listModels() {
@@ -57,4 +263,4 @@ export class AnthropicProvider implements BaseProvider {
         ...model
       }));
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,73 @@
+import { randomUUID } from 'crypto';
+import type { ChatCompletionChunk } from 'openai/resources/chat/completions';
+import type { Usage } from '../utils/usage';
+
+export type FinishReason = ChatCompletionChunk.Choice['finish_reason'];
+
+/** 流式响应的结束标记，所有 provider 都以此结束 */
+export const SSE_DONE = 'data: [DONE]\n\n';
+
+export function sseEvent(payload: any): string {
+  return `data: ${JSON.stringify(payload)}\n\n`;
+}
+
+/** 最后一个 chunk 携带整个对话（包括工具循环）的用量，与 OpenAI 的 include_usage 一致 */
+export interface UsageChunk extends Omit<ChatCompletionChunk, 'usage'> {
+  usage: Usage;
+}
+
+/**
+ * 生成 OpenAI 格式的 chat.completion.chunk。
+ * 同一次响应（包括工具循环中的多轮模型调用）的所有 chunk 共用 id 和 created。
+ */
+export class ChunkBuilder {
+  readonly id = `chatcmpl-${randomUUID()}`;
+  readonly created = Math.floor(Date.now() / 1000);
+
+  constructor(private model: string) {}
+
+  delta(
+    delta: ChatCompletionChunk.Choice.Delta,
+    finishReason: FinishReason = null,
+    logprobs?: ChatCompletionChunk.Choice['logprobs']
+  ): ChatCompletionChunk {
+    return {
+      id: this.id,
+      object: 'chat.completion.chunk',
+      created: this.created,
+      model: this.model,
+      choices: [{ index: 0, delta, finish_reason: finishReason, ...(logprobs ? { logprobs } : {}) }]
+    };
+  }
+
+  /** 转换 OpenAI 兼容接口（OpenAI、DeepSeek）返回的 chunk，只保留第一个 choice */
+  fromChunk(chunk: ChatCompletionChunk): ChatCompletionChunk | null {
+    const choice = chunk.choices[0];
+    if (!choice) {
+      return null;
+    }
+    return this.delta(choice.delta, choice.finish_reason, choice.logprobs);
+  }
+
+  usage(usage: Usage): UsageChunk {
+    return {
+      id: this.id,
+      object: 'chat.completion.chunk',
+      created: this.created,
+      model: this.model,
+      choices: [],
+      usage
+    };
+  }
+}
+
+/** Anthropic 的 stop_reason 转换为 OpenAI 的 finish_reason */
+export function fromAnthropicStopReason(reason: string | null | undefined): FinishReason {
+  switch (reason) {
+    case 'tool_use': return 'tool_calls';
+    case 'max_tokens': return 'length';
+    case null:
+    case undefined: return null;
+    default: return 'stop';
+  }
+}
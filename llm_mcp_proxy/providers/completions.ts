@@ -0,0 +1,106 @@
+import { randomUUID } from 'crypto';
+import type { ChatCompletion, ChatCompletionMessageToolCall } from 'openai/resources/chat/completions';
+import type { Message as AnthropicResponse, ToolUseBlock } from '@anthropic-ai/sdk/resources/messages';
+import type { ChatResponse } from '../types/chat';
+import type { Usage } from '../utils/usage';
+import { FinishReason, fromAnthropicStopReason } from './chunks';
+
+interface CompletionFields {
+  id?: string;
+  created?: number;
+  model: string;
+  content: string;
+  toolCalls?: ChatCompletionMessageToolCall[];
+  finishReason: NonNullable<FinishReason>;
+  usage: Usage;
+  raw: unknown;
+}
+
+/**
+ * 组装 OpenAI 格式的 chat.completion，raw 为上游原始响应
+ */
+function toChatCompletion({ id, created, model, content, toolCalls = [], finishReason, usage, raw }: CompletionFields): ChatResponse {
+  return {
+    id: id || `chatcmpl-${randomUUID()}`,
+    object: 'chat.completion',
+    created: created ?? Math.floor(Date.now() / 1000),
+    model,
+    choices: [{
+      index: 0,
+      message: {
+        role: 'assistant',
+        // 与 OpenAI 一致：只有工具调用时 content 为 null
+        content: toolCalls.length > 0 && !content ? null : content,
+        refusal: null,
+        ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {})
+      },
+      finish_reason: finishReason,
+      logprobs: null
+    }],
+    usage,
+    raw
+  };
+}
+
+/** OpenAI 兼容接口（OpenAI、DeepSeek）的响应只需替换 usage */
+export function fromOpenAICompletion(response: ChatCompletion, usage: Usage): ChatResponse {
+  return { ...response, usage, raw: response };
+}
+
+/**
+ * responseToolName 为结构化输出时强制调用的工具，其参数作为回答内容
+ */
+export function fromAnthropicMessage(response: AnthropicResponse, usage: Usage, responseToolName?: string): ChatResponse {
+  const answer = responseToolName
+    ? response.content.find((block): block is ToolUseBlock => block.type === 'tool_use' && block.name === responseToolName)
+    : undefined;
+  if (answer) {
+    return toChatCompletion({
+      id: response.id,
+      model: response.model,
+      content: JSON.stringify(answer.input ?? {}),
+      finishReason: 'stop',
+      usage,
+      raw: response
+    });
+  }
+
+  const content = response.content
+    .map(block => (block.type === 'text' ? block.text : ''))
+    .join('');
+  const toolCalls = response.content
+    .filter((block): block is ToolUseBlock => block.type === 'tool_use')
+    .map((block): ChatCompletionMessageToolCall => ({
+      id: block.id,
+      type: 'function',
+      function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) }
+    }));
+  return toChatCompletion({
+    id: response.id,
+    model: response.model,
+    content,
+    toolCalls,
+    finishReason: fromAnthropicStopReason(response.stop_reason) ?? 'stop',
+    usage,
+    raw: response
+  });
+}
+
+/** Ollama 的 tool_calls 没有 id，按顺序生成，与执行工具时使用的 id 一致 */
+export function fromOllamaChat(response: any, usage: Usage): ChatResponse {
+  const toolCalls = (response.message?.tool_calls || []).map((call: any, index: number): ChatCompletionMessageToolCall => ({
+    id: `call_${index}`,
+    type: 'function',
+    function: { name: call.function.name, arguments: JSON.stringify(call.function.arguments ?? {}) }
+  }));
+  const createdAt = Date.parse(response.created_at);
+  return toChatCompletion({
+    created: Number.isNaN(createdAt) ? undefined : Math.floor(createdAt / 1000),
+    model: response.model,
+    content: response.message?.content || '',
+    toolCalls,
+    finishReason: toolCalls.length > 0 ? 'tool_calls' : response.done_reason === 'length' ? 'length' : 'stop',
+    usage,
+    raw: response
+  });
+}
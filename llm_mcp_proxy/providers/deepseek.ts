@@ -1,7 +1,32 @@
 import OpenAI from 'openai';
+import type {
+  ChatCompletionMessageParam,
+  ChatCompletionMessageToolCall,
+  ChatCompletionAssistantMessageParam,
+  ChatCompletionToolMessageParam
+} from 'openai/resources/chat/completions';
 import { BaseProvider, ChatParams, ListModelsParams } from './types';
 import { Message, ModelMeta } from '../types';
 import modelsMeta from '../models_meta.json';
+import {
+  MAX_TOOL_LOOPS,
+  buildToolRegistry,
+  ToolCallResult,
+  ToolExecutionOptions,
+  executeToolCalls,
+  mergeToolCallDeltas,
+  stringifyToolResult,
+  toFunctionTools,
+  toolResultEvent
+} from './mcp_tools';
+import { ToolRegistry } from './tool_registry';
+import { UsageTracker, fromOpenAIUsage } from '../utils/usage';
+import { withRetry } from '../utils/retry';
+import { ChunkBuilder, SSE_DONE, sseEvent } from './chunks';
+import { fromOpenAICompletion } from './completions';
+import { toOpenAIParams } from './generation';
+import { mergeConsecutiveMessages } from './messages';
+import { toOpenAIResponseFormat, withFormatInstruction } from './structured_output';
 
 export class DeepSeekProvider implements BaseProvider {
   baseUrl = 'https://api.deepseek.com/v1';
@@ -9,46 +34,127 @@ export class DeepSeekProvider implements BaseProvider {
   createClient(apiKey: string) {
     return new OpenAI({
       apiKey,
-      baseURL: this.baseUrl
+      baseURL: this.baseUrl,
+      // 重试由 withRetry 统一处理
+      maxRetries: 0
     });
   }
 
-  async chat({ model, messages, apiKey }: ChatParams) {
+  /**
+   * 保留原有角色（包括 system 和 tool），只合并相邻的同角色消息（deepseek-reasoner 不接受连续的 user/assistant 消息）
+   */
+  private convertMessages(messages: Message[]): ChatCompletionMessageParam[] {
+    return mergeConsecutiveMessages(messages) as ChatCompletionMessageParam[];
+  }
+
+  /**
+   * 执行工具调用，并把 assistant 的 tool_calls 与工具结果追加到对话历史
+   */
+  private async runToolCalls(
+    toolCalls: ChatCompletionMessageToolCall[],
+    content: string | null,
+    registry: ToolRegistry,
+    history: ChatCompletionMessageParam[],
+    options: ToolExecutionOptions = {}
+  ): Promise<ToolCallResult[]> {
+    const results = await executeToolCalls(registry, toolCalls.map(call => ({
+      id: call.id,
+      name: call.function.name,
+      arguments: call.function.arguments
+    })), options);
+
+    history.push({
+      role: 'assistant',
+      content,
+      tool_calls: toolCalls
+    } as ChatCompletionAssistantMessageParam);
+
+    for (const result of results) {
+      history.push({
+        role: 'tool',
+        content: stringifyToolResult(result),
+        tool_call_id: result.id
+      } as ChatCompletionToolMessageParam);
+    }
+
+    return results;
+  }
+
+  async chat(params: ChatParams) {
+    const { model, messages, apiKey, signal } = params;
+    // 中途出错或请求取消时，已消耗的用量同样计入
+    const usage = new UsageTracker('deepseek', params);
     try {
       const client = this.createClient(apiKey!);
-      const response = await client.chat.completions.create({
-        model,
-        messages: messages.map(msg => ({
-          role: msg.role === 'user' ? 'user' : 'assistant',
-          content: msg.content
-        })) as OpenAI.Chat.ChatCompletionMessageParam[]
-      });
-      return response;
+      const registry = await buildToolRegistry(params);
+      const tools = toFunctionTools(registry);
+      const history = this.convertMessages(withFormatInstruction(messages, 'deepseek', model, params.response_format));
+      const generation = {
+        ...toOpenAIParams(params, 'max_tokens'),
+        ...toOpenAIResponseFormat('deepseek', model, params.response_format)
+      };
+
+      let loop = 0;
+      while (loop++ < MAX_TOOL_LOOPS) {
+        const response = await withRetry('DeepSeek chat', () => client.chat.completions.create({
+          model,
+          messages: history,
+          ...generation,
+          ...(tools.length > 0 ? { tools, tool_choice: loop === 1 ? params.tool_choice ?? 'auto' : 'auto' } : {})
+        }, { signal }), signal);
+        usage.add(fromOpenAIUsage(response.usage));
+
+        const choice = response.choices[0];
+        if (!choice || choice.finish_reason !== 'tool_calls' || !choice.message.tool_calls) {
+          return fromOpenAICompletion(response, usage.finish());
+        }
+
+        await this.runToolCalls(choice.message.tool_calls, choice.message.content, registry, history, { signal });
+      }
+
+      // 达到最大循环次数，不再提供工具，让模型给出最终回答
+      const response = await withRetry('DeepSeek chat', () => client.chat.completions.create({ model, messages: history, ...generation }, { signal }), signal);
+      usage.add(fromOpenAIUsage(response.usage));
+      return fromOpenAICompletion(response, usage.finish());
     } catch (error: any) {
       console.error('DeepSeek API error:', error);
       throw error;
+    } finally {
+      usage.finish();
     }
   }
 
-  async chatStream({ model, messages, apiKey }: ChatParams, stream: NodeJS.WritableStream) {
+  async chatStream(params: ChatParams, stream: NodeJS.WritableStream) {
+    const { model, messages, apiKey, signal } = params;
+    // 中途出错或请求取消时，已消耗的用量同样计入
+    const usage = new UsageTracker('deepseek', params);
     try {
       const client = this.createClient(apiKey!);
-      const response = await client.chat.completions.create({
-        model,
-        messages: messages.map(msg => ({
-          role: msg.role === 'user' ? 'user' : 'assistant',
-          content: msg.content
-        })) as OpenAI.Chat.ChatCompletionMessageParam[],
-        stream: true
-      });
+      const registry = await buildToolRegistry(params, true);
+      const tools = toFunctionTools(registry);
+      const history = this.convertMessages(withFormatInstruction(messages, 'deepseek', model, params.response_format));
+      const chunks = new ChunkBuilder(model);
+      const generation = {
+        ...toOpenAIParams(params, 'max_tokens'),
+        ...toOpenAIResponseFormat('deepseek', model, params.response_format)
+      };
 
       let streamEnded = false;
+      // 尚未输出任何内容时出错直接抛出，由路由决定是否切换到备用模型
+      let hasSent = false;
+
+      const send = (payload: any) => {
+        if (!streamEnded) {
+          hasSent = true;
+          stream.write(sseEvent(payload));
+        }
+      };
 
       const endStream = () => {
         if (!streamEnded) {
           streamEnded = true;
           try {
-            stream.write('data: [DONE]\n\n');
+            stream.write(SSE_DONE);
             stream.end();
           } catch (e) {
             console.error('Error ending stream:', e);
@@ -64,8 +170,8 @@ export class DeepSeekProvider implements BaseProvider {
               error: true,
               message: error.message
             };
-            stream.write(`data: ${JSON.stringify(errorEvent)}\n\n`);
-            stream.write('data: [DONE]\n\n');
+            stream.write(sseEvent(errorEvent));
+            stream.write(SSE_DONE);
             stream.end();
           } catch (e) {
             console.error('Error handling stream error:', e);
@@ -74,30 +180,81 @@ export class DeepSeekProvider implements BaseProvider {
       };
 
       try {
-        for await (const chunk of response) {
-          if (streamEnded) break;
-
-          if (chunk.choices[0]?.delta?.content) {
-            const event = {
-              model,
-              created_at: new Date().toISOString(),
-              message: {
-                role: 'assistant',
-                content: chunk.choices[0].delta.content
-              },
-              done: false
-            };
-            stream.write(`data: ${JSON.stringify(event)}\n\n`);
+        for (let loop = 1; ; loop++) {
+          const reqStartTs = Date.now();
+          // 达到最大循环次数后不再提供工具，让模型给出最终回答
+          const withTools = tools.length > 0 && loop <= MAX_TOOL_LOOPS;
+
+          const response = await withRetry('DeepSeek stream', () => client.chat.completions.create({
+            model,
+            messages: history,
+            stream: true,
+            stream_options: { include_usage: true },
+            ...generation,
+            ...(withTools ? { tools, tool_choice: loop === 1 ? params.tool_choice ?? 'auto' : 'auto' } : {})
+          }, { signal }), signal);
+
+          let content = '';
+          let finishReason: string | null = null;
+          const toolCallStates = new Map<number, { id: string; name: string; arguments: string }>();
+
+          for await (const chunk of response) {
+            if (streamEnded) break;
+
+            // 开启 include_usage 后，最后一个 chunk 只包含 usage
+            if (chunk.usage) {
+              usage.add(fromOpenAIUsage(chunk.usage));
+            }
+            const out = chunks.fromChunk(chunk);
+            if (out) {
+              send(out);
+            }
+            const choice = chunk.choices[0];
+            if (choice?.delta?.content) {
+              content += choice.delta.content;
+            }
+            if (choice?.delta?.tool_calls) {
+              mergeToolCallDeltas(toolCallStates, choice.delta.tool_calls);
+            }
+            if (choice?.finish_reason) {
+              finishReason = choice.finish_reason;
+            }
+          }
+
+          if (streamEnded || !withTools || finishReason !== 'tool_calls' || toolCallStates.size === 0) {
+            break;
           }
+
+          const toolCalls: ChatCompletionMessageToolCall[] = [...toolCallStates.values()].map(state => ({
+            id: state.id,
+            type: 'function',
+            function: { name: state.name, arguments: state.arguments }
+          }));
+          const results = await this.runToolCalls(toolCalls, content || null, registry, history, {
+            requireApproval: !params.isYolo,
+            caller: params.caller,
+            send,
+            signal
+          });
+          results.forEach(result => send(toolResultEvent(result)));
+
+          const duration = ((Date.now() - reqStartTs) / 1000).toFixed(1);
+          send({ type: 'loop_info', loop, duration });
         }
 
+        send(chunks.usage(usage.finish()));
         endStream();
       } catch (error) {
+        if (!hasSent) {
+          throw error;
+        }
         handleError(error as Error);
       }
     } catch (error: any) {
       console.error('DeepSeek API error:', error);
       throw error;
+    } finally {
+      usage.finish();
     }
   }
 
@@ -110,4 +267,4 @@ export class DeepSeekProvider implements BaseProvider {
         provider: 'deepseek'
       }));
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,170 @@
+import type { ToolChoice as AnthropicToolChoice } from '@anthropic-ai/sdk/resources/messages';
+import type { GenerationParams, ToolChoice } from './types';
+import { findModelMeta } from '../utils/usage';
+import { isResponseFormatSupported, validateResponseFormat } from './structured_output';
+
+/** 请求体中可以透传给 LLM 的生成参数 */
+export const GENERATION_PARAM_NAMES: (keyof GenerationParams)[] = [
+  'temperature',
+  'top_p',
+  'max_tokens',
+  'stop',
+  'seed',
+  'presence_penalty',
+  'frequency_penalty',
+  'user',
+  'tool_choice',
+  'response_format'
+];
+
+/** models_meta.json 中没有该模型时，Anthropic 默认的 max_tokens */
+export const FALLBACK_MAX_TOKENS = 4096;
+
+/**
+ * 默认 max_tokens 的上限。部分模型的 max_output_tokens 很大（如 claude-3-7-sonnet 为 128000），
+ * SDK 会拒绝这么大的非流式请求，API 也需要 beta 头才允许超过 64k 的输出
+ */
+export const MAX_DEFAULT_MAX_TOKENS = 8192;
+
+/** 各 provider 不支持的参数，请求中带有这些参数时返回 400 */
+const UNSUPPORTED_PARAMS: Record<string, (keyof GenerationParams)[]> = {
+  anthropic: ['seed', 'presence_penalty', 'frequency_penalty'],
+  deepseek: ['seed', 'user'],
+  ollama: ['user']
+};
+
+export function pickGenerationParams(body: Record<string, any>): GenerationParams {
+  return Object.fromEntries(
+    GENERATION_PARAM_NAMES
+      .filter(name => body[name] !== undefined && body[name] !== null)
+      .map(name => [name, body[name]])
+  );
+}
+
+function isNumberIn(value: unknown, min: number, max: number): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+}
+
+function isToolChoice(value: unknown): value is ToolChoice {
+  if (value === 'auto' || value === 'none' || value === 'required') {
+    return true;
+  }
+  const choice = value as any;
+  return !!choice && choice.type === 'function' && typeof choice.function?.name === 'string';
+}
+
+/**
+ * 校验生成参数的类型和范围，格式错误时抛出错误
+ */
+export function validateGenerationParams(params: GenerationParams) {
+  const { temperature, top_p, max_tokens, stop, seed, presence_penalty, frequency_penalty, user, tool_choice, response_format } = params;
+  if (temperature !== undefined && !isNumberIn(temperature, 0, 2)) {
+    throw new Error('"temperature" must be a number between 0 and 2');
+  }
+  if (top_p !== undefined && !isNumberIn(top_p, 0, 1)) {
+    throw new Error('"top_p" must be a number between 0 and 1');
+  }
+  if (max_tokens !== undefined && (!Number.isInteger(max_tokens) || max_tokens < 1)) {
+    throw new Error('"max_tokens" must be a positive integer');
+  }
+  if (stop !== undefined && typeof stop !== 'string' && (!Array.isArray(stop) || stop.some(item => typeof item !== 'string'))) {
+    throw new Error('"stop" must be a string or an array of strings');
+  }
+  if (seed !== undefined && !Number.isInteger(seed)) {
+    throw new Error('"seed" must be an integer');
+  }
+  for (const [name, value] of [['presence_penalty', presence_penalty], ['frequency_penalty', frequency_penalty]] as const) {
+    if (value !== undefined && !isNumberIn(value, -2, 2)) {
+      throw new Error(`"${name}" must be a number between -2 and 2`);
+    }
+  }
+  if (user !== undefined && typeof user !== 'string') {
+    throw new Error('"user" must be a string');
+  }
+  if (tool_choice !== undefined && !isToolChoice(tool_choice)) {
+    throw new Error('"tool_choice" must be "auto", "none", "required" or { "type": "function", "function": { "name": "..." } }');
+  }
+  if (response_format !== undefined) {
+    validateResponseFormat(response_format);
+  }
+}
+
+/**
+ * 返回 provider 不支持的参数（为空表示全部支持）
+ */
+export function findUnsupportedParams(provider: string, params: GenerationParams): string[] {
+  const unsupported: string[] = (UNSUPPORTED_PARAMS[provider] || []).filter(name => params[name] !== undefined);
+  // Ollama 无法强制调用工具，只支持 auto 和 none
+  if (provider === 'ollama' && params.tool_choice !== undefined && params.tool_choice !== 'auto' && params.tool_choice !== 'none') {
+    unsupported.push('tool_choice');
+  }
+  if (params.response_format !== undefined && !isResponseFormatSupported(provider, params.response_format)) {
+    unsupported.push('response_format');
+  }
+  return unsupported;
+}
+
+/** 默认的 max_tokens 取模型的 max_output_tokens，但不超过 MAX_DEFAULT_MAX_TOKENS */
+export function getDefaultMaxTokens(provider: string, model: string): number {
+  const meta = findModelMeta(provider, model);
+  return Math.min(meta?.max_output_tokens || meta?.max_tokens || FALLBACK_MAX_TOKENS, MAX_DEFAULT_MAX_TOKENS);
+}
+
+function toStopList(stop: GenerationParams['stop']): string[] | undefined {
+  return stop === undefined ? undefined : Array.isArray(stop) ? stop : [stop];
+}
+
+function withoutUndefined<T extends Record<string, any>>(params: T): Partial<T> {
+  return Object.fromEntries(Object.entries(params).filter(([, value]) => value !== undefined)) as Partial<T>;
+}
+
+/**
+ * OpenAI 兼容接口的参数。OpenAI 使用 max_completion_tokens（推理模型不支持 max_tokens），DeepSeek 使用 max_tokens
+ */
+export function toOpenAIParams(params: GenerationParams, maxTokensField: 'max_tokens' | 'max_completion_tokens') {
+  return withoutUndefined({
+    temperature: params.temperature,
+    top_p: params.top_p,
+    [maxTokensField]: params.max_tokens,
+    stop: params.stop,
+    seed: params.seed,
+    presence_penalty: params.presence_penalty,
+    frequency_penalty: params.frequency_penalty,
+    user: params.user
+  });
+}
+
+/** Anthropic 必须传 max_tokens */
+export function toAnthropicParams(params: GenerationParams, model: string) {
+  return {
+    max_tokens: params.max_tokens ?? getDefaultMaxTokens('anthropic', model),
+    ...withoutUndefined({
+      temperature: params.temperature,
+      top_p: params.top_p,
+      stop_sequences: toStopList(params.stop),
+      metadata: params.user !== undefined ? { user_id: params.user } : undefined
+    })
+  };
+}
+
+export function toAnthropicToolChoice(choice: ToolChoice): AnthropicToolChoice {
+  switch (choice) {
+    case 'auto': return { type: 'auto' };
+    case 'none': return { type: 'none' };
+    case 'required': return { type: 'any' };
+    default: return { type: 'tool', name: choice.function.name };
+  }
+}
+
+/** Ollama 的生成参数放在 options 中 */
+export function toOllamaOptions(params: GenerationParams) {
+  return withoutUndefined({
+    temperature: params.temperature,
+    top_p: params.top_p,
+    num_predict: params.max_tokens,
+    stop: toStopList(params.stop),
+    seed: params.seed,
+    presence_penalty: params.presence_penalty,
+    frequency_penalty: params.frequency_penalty
+  });
+}
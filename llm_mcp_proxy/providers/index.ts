@@ -4,8 +4,8 @@ import { DeepSeekProvider } from './deepseek';
 import { OllamaProvider } from './ollama';
 import { OpenAIWithToolProvider } from './openai_with_tool';
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
-import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
-import { loadMCPClientByConfig, initializeMCPConfig, MCPConfig, updateServerConfig, MCPServerConfig } from '../utils/mcp';
+import { loadMCPClientByConfig, initializeMCPConfig, MCPConfig, updateServerConfig, MCPServerConfig, validateServerConfig, removeServerConfig, getMCPConfig } from '../utils/mcp';
+import { MCPSupervisor, MCPServerState } from '../utils/mcp_supervisor';
 
 //const openai = new OpenAIProvider();
 const openai = new OpenAIWithToolProvider();
@@ -15,8 +15,8 @@ const ollama = new OllamaProvider();
 
 export const allProviders = [openai, anthropic, deepseek, ollama];
 
-// 存储 MCP 客户端实例的 Map
-const mcpClients: Map<string, Client> = new Map();
+// 管理 MCP 客户端实例的生命周期（重连、心跳、关闭）
+const mcpSupervisor = new MCPSupervisor();
 
 export function getLLMProviderByName(name: string) {
   switch (name) {
@@ -41,47 +41,14 @@ export function initializeMCP(config: MCPConfig) {
 export async function updateMCPServer(server: string, config: MCPServerConfig): Promise<Client | null> {
   try {
     console.log(`Updating MCP server "${server}" with config:`, config);
+    validateServerConfig(server, config);
     
     // 更新配置
     updateServerConfig(server, config);
     isConfigInitialized = true;
 
-    // 如果存在旧的客户端实例，先断开连接
-    const existingClient = mcpClients.get(server);
-    if (existingClient) {
-      console.log(`Disconnecting existing client for server "${server}"`);
-      // 从缓存中移除客户端实例
-      mcpClients.delete(server);
-    }
-
-    // 创建新的传输层
-    console.log(`Creating transport for server "${server}"`);
-    const transport = new StdioClientTransport({
-      command: config.command,
-      args: config.args || []
-    });
-
-    // 创建新的客户端
-    console.log(`Creating client for server "${server}"`);
-    const client = new Client({
-      name: `mcp-client-${server}`,
-      version: "1.0.0"
-    });
-
-    // 连接到服务器
-    console.log(`Connecting to server "${server}"`);
-    try {
-      await client.connect(transport);
-      console.log(`Successfully connected to server "${server}"`);
-    } catch (connectError) {
-      console.error(`Failed to connect to server "${server}":`, connectError);
-      return null;
-    }
-    
-    // 将新的客户端实例存储到缓存中
-    mcpClients.set(server, client);
-    
-    return client;
+    // 关闭旧的客户端实例并用新配置重新连接
+    return await mcpSupervisor.replace(server, config);
   } catch (error) {
     console.error(`Failed to update MCP client for server "${server}":`, error);
     return null;
@@ -98,15 +65,7 @@ export async function getMCPClientByName(server: string): Promise<Client | null>
       initializeMCP(config);
     }
 
-    // 检查缓存中是否已存在客户端实例
-    const cachedClient = mcpClients.get(server);
-    if (cachedClient) {
-      console.log(`Using cached client for server "${server}"`);
-      return cachedClient;
-    }
-
     // 从配置加载服务器配置
-    console.log(`Loading config for server "${server}"`);
     const config = await loadMCPClientByConfig();
     
     // 检查服务器是否存在于配置中
@@ -115,50 +74,76 @@ export async function getMCPClientByName(server: string): Promise<Client | null>
       return null;
     }
 
-    const serverConfig = config.mcpServers[server];
-    console.log(`Found config for server "${server}":`, serverConfig);
-
-    // 创建传输层
-    console.log(`Creating transport for server "${server}"`);
-    const transport = new StdioClientTransport({
-      command: serverConfig.command,
-      args: serverConfig.args || []
-    });
-
-    // 创建客户端
-    console.log(`Creating client for server "${server}"`);
-    const client = new Client({
-      name: `mcp-client-${server}`,
-      version: "1.0.0"
-    });
-
-    // 连接到服务器
-    console.log(`Connecting to server "${server}"`);
-    try {
-      await client.connect(transport);
-      console.log(`Successfully connected to server "${server}"`);
-    } catch (connectError) {
-      console.error(`Failed to connect to server "${server}":`, connectError);
-      return null;
-    }
-    
-    // 将客户端实例存储到缓存中
-    mcpClients.set(server, client);
-    
-    return client;
+    // 已连接时直接复用，否则建立连接
+    return await mcpSupervisor.getClient(server, config.mcpServers[server]);
   } catch (error) {
     console.error(`Failed to create MCP client for server "${server}":`, error);
     return null;
   }
 }
 
-// 用于清理缓存的方法（如果需要）
-export function clearMCPClientCache(server?: string) {
+/**
+ * 应用新的完整配置：只停止被删除的服务器，重启配置有变化的服务器，
+ * 并启动新增的服务器；未变化的服务器保持连接。
+ */
+export async function reloadMCPConfig(config: MCPConfig) {
+  const previous = getMCPConfig()?.mcpServers || {};
+  const next = config.mcpServers;
+
+  initializeMCPConfig(config);
+  isConfigInitialized = true;
+
+  const removed = Object.keys(previous).filter(name => !(name in next));
+  const changed = Object.keys(next).filter(name =>
+    JSON.stringify(previous[name]) !== JSON.stringify(next[name])
+  );
+  if (removed.length === 0 && changed.length === 0) {
+    console.log('MCP configuration unchanged');
+    return;
+  }
+  console.log('Reloading MCP configuration, removed:', removed, 'changed or added:', changed);
+
+  for (const name of removed) {
+    await mcpSupervisor.stop(name);
+  }
+  for (const name of changed) {
+    await mcpSupervisor.replace(name, next[name]);
+  }
+}
+
+/**
+ * 从配置中删除服务器并关闭其连接
+ */
+export async function removeMCPServer(server: string): Promise<boolean> {
+  const removed = removeServerConfig(server);
+  await mcpSupervisor.stop(server);
+  return removed;
+}
+
+export function getMCPServerState(server: string): MCPServerState | null {
+  return mcpSupervisor.getState(server);
+}
+
+export function listMCPServerStates(): MCPServerState[] {
+  return mcpSupervisor.listStates();
+}
+
+export async function restartMCPServer(server: string): Promise<Client | null> {
+  return mcpSupervisor.restart(server);
+}
+
+// 关闭客户端连接（会结束 stdio 子进程）
+export async function clearMCPClientCache(server?: string) {
   if (server) {
     console.log(`Clearing cache for server "${server}"`);
-    mcpClients.delete(server);
+    await mcpSupervisor.stop(server);
   } else {
     console.log('Clearing all MCP client cache');
-    mcpClients.clear();
+    await mcpSupervisor.stopAll();
   }
-}
\ No newline at end of file
+}
+
+export async function shutdownMCPServers() {
+  console.log('Shutting down all MCP servers');
+  await mcpSupervisor.stopAll();
+}
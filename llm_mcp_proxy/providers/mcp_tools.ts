@@ -0,0 +1,268 @@
+import type { ChatCompletionTool, ChatCompletionChunk } from 'openai/resources/chat/completions';
+import { MCPTool, ToolRegistry } from './tool_registry';
+import { ChatParams } from './types';
+import { ApprovalDecision, createApproval, resolveApproval } from '../utils/approvals';
+import { formatSchemaErrors, validateAgainstSchema } from '../utils/schema';
+
+/** avoid dead loop */
+export const MAX_TOOL_LOOPS = 5;
+
+/** 模型发起的一次工具调用（与具体 LLM 的格式无关） */
+export interface ToolCallRequest {
+  id: string;
+  name: string;
+  // OpenAI 兼容接口返回 JSON 字符串，Anthropic/Ollama 返回对象
+  arguments: string | Record<string, any>;
+}
+
+export interface ToolCallResult {
+  id: string;
+  name: string;
+  result?: any;
+  error?: string;
+}
+
+export interface ToolExecutionOptions {
+  /** 非 YOLO 模式：执行前等待用户通过 POST /v1/chat/approvals/:id 审批 */
+  requireApproval?: boolean;
+  /** 发起对话的调用方（见 identifyCaller），审批只对同一调用方可见 */
+  caller?: string;
+  /** 推送 tool_call_pending 等 SSE 事件 */
+  send?: (payload: any) => void;
+  /** 请求被取消时中止工具调用，并拒绝等待中的审批 */
+  signal?: AbortSignal;
+}
+
+/**
+ * 根据请求参数构建本次对话可用的工具。
+ * YOLO 模式下工具自动执行；非 YOLO 模式需要用户审批，
+ * 而审批 ID 只能通过 SSE 推送，所以仅在流式响应中提供工具。
+ */
+export async function buildToolRegistry(
+  { isYolo = false, mcpServerNames = [], allowedTools, deniedTools, onToolExecuted }: ChatParams,
+  streaming = false
+): Promise<ToolRegistry> {
+  if (mcpServerNames.length === 0 || (!isYolo && !streaming)) {
+    return new ToolRegistry();
+  }
+  return ToolRegistry.build(mcpServerNames, { allowedTools, deniedTools }, onToolExecuted);
+}
+
+/** 转换为 OpenAI 兼容的 function tools（DeepSeek、Ollama 也使用该格式） */
+export function toFunctionTools(registry: ToolRegistry): ChatCompletionTool[] {
+  return registry.list().map(tool => ({
+    type: 'function',
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.inputSchema
+    }
+  }));
+}
+
+// 模型输出中常见的格式问题：markdown 代码块、对象或数组末尾多余的逗号
+export function repairJSON(text: string): string {
+  return text.trim()
+    .replace(/^```(?:json)?\s*/i, '')
+    .replace(/\s*```$/, '')
+    .replace(/,\s*([}\]])/g, '$1');
+}
+
+/**
+ * 解析模型给出的工具参数。解析失败时先做通用修复再重试，
+ * 仍然失败则抛出错误，由调用方作为工具错误返回给模型。
+ */
+export function parseToolArguments(args: string | Record<string, any>): Record<string, any> {
+  let parsed: unknown = args;
+
+  if (typeof args === 'string') {
+    if (!args.trim()) {
+      return {};
+    }
+    try {
+      parsed = JSON.parse(args);
+    } catch (e: any) {
+      try {
+        parsed = JSON.parse(repairJSON(args));
+        console.log('Repaired tool arguments:', args);
+      } catch {
+        throw new Error(`Invalid arguments format: ${e.message}. Arguments must be a JSON object.`);
+      }
+    }
+    // 部分模型会把参数再编码成一个 JSON 字符串
+    if (typeof parsed === 'string') {
+      try {
+        parsed = JSON.parse(parsed);
+      } catch {
+        // 交给下面的类型检查报错
+      }
+    }
+  }
+
+  if (parsed === null || parsed === undefined) {
+    return {};
+  }
+  if (typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Invalid arguments format: arguments must be a JSON object.');
+  }
+  return parsed as Record<string, any>;
+}
+
+/** 按工具的 inputSchema 校验参数，不符合时抛出带字段信息的错误，便于模型修正后重试 */
+function validateToolArguments(tool: MCPTool, args: Record<string, any>) {
+  const errors = validateAgainstSchema(tool.inputSchema, args);
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid arguments for tool "${tool.name}": ${formatSchemaErrors(errors)}. ` +
+      'Call the tool again with arguments that match its input schema.'
+    );
+  }
+}
+
+/**
+ * 执行单个工具调用。需要审批时先推送 tool_call_pending 事件，
+ * 等待用户批准、拒绝或修改参数后再调用 MCP 服务器。
+ */
+export async function runToolCall(
+  registry: ToolRegistry,
+  call: { id: string; name: string; arguments: Record<string, any> },
+  options: ToolExecutionOptions = {}
+): Promise<any> {
+  let args = call.arguments;
+
+  const tool = registry.resolve(call.name);
+  if (!tool) {
+    throw new Error(`No MCP client available for tool "${call.name}"`);
+  }
+  // 无效的调用不需要用户审批，直接返回给模型
+  validateToolArguments(tool, args);
+
+  if (options.requireApproval) {
+    const { approval, decision: pending } = createApproval({
+      toolCallId: call.id,
+      toolName: tool.name,
+      serverName: tool.serverName,
+      arguments: args
+    }, options.caller ?? 'anonymous');
+    options.send?.({
+      type: 'tool_call_pending',
+      approval_id: approval.id,
+      tool_call_id: call.id,
+      name: tool.name,
+      server: tool.serverName,
+      arguments: args
+    });
+
+    // 客户端断开后不再等待审批
+    const cancel = () => resolveApproval(approval.id, { action: 'reject', reason: 'Request was cancelled' });
+    options.signal?.addEventListener('abort', cancel, { once: true });
+    let decision: ApprovalDecision;
+    try {
+      decision = await pending;
+    } finally {
+      options.signal?.removeEventListener('abort', cancel);
+    }
+    options.signal?.throwIfAborted();
+    console.log(`Approval "${approval.id}" for tool ${tool.name}:`, decision);
+    options.send?.({ type: 'tool_call_approval', approval_id: approval.id, action: decision.action });
+
+    if (decision.action === 'reject') {
+      throw new Error(`Tool call rejected by user${decision.reason ? `: ${decision.reason}` : ''}`);
+    }
+    if (decision.action === 'edit') {
+      args = decision.arguments;
+      validateToolArguments(tool, args);
+    }
+  }
+
+  return registry.call(call.name, args, options.signal);
+}
+
+/**
+ * 依次执行模型请求的工具调用。
+ * 单个工具失败不会中断整个循环，错误会作为结果返回给模型。
+ */
+export async function executeToolCalls(
+  registry: ToolRegistry,
+  calls: ToolCallRequest[],
+  options: ToolExecutionOptions = {}
+): Promise<ToolCallResult[]> {
+  const results: ToolCallResult[] = [];
+
+  for (const call of calls) {
+    // 请求已取消时直接结束，不再执行剩余的工具
+    options.signal?.throwIfAborted();
+    try {
+      const result = await runToolCall(registry, {
+        id: call.id,
+        name: call.name,
+        arguments: parseToolArguments(call.arguments)
+      }, options);
+      // MCP 服务器用 isError 表示工具执行失败，与抛出异常同样作为错误返回给模型
+      if (result?.isError) {
+        console.error(`Tool "${call.name}" returned an error:`, result);
+        results.push({ id: call.id, name: call.name, error: contentText(result) || 'Tool execution failed' });
+        continue;
+      }
+      results.push({ id: call.id, name: call.name, result });
+    } catch (error: any) {
+      if (options.signal?.aborted) {
+        throw error;
+      }
+      console.error(`Tool "${call.name}" failed:`, error);
+      results.push({ id: call.id, name: call.name, error: error.message || 'Tool execution failed' });
+    }
+  }
+
+  return results;
+}
+
+/** 工具执行结果对应的 SSE 事件 */
+export function toolResultEvent(result: ToolCallResult) {
+  if (result.error !== undefined) {
+    return { type: 'tool_error', name: result.name, message: result.error };
+  }
+  return { type: 'tool_result', name: result.name, result: result.result };
+}
+
+/** 拼接 CallToolResult.content 中的文本，没有文本内容时返回 undefined */
+function contentText(result: any): string | undefined {
+  if (!Array.isArray(result?.content)) {
+    return undefined;
+  }
+  const texts = result.content
+    .filter((item: any) => item?.type === 'text' && typeof item.text === 'string')
+    .map((item: any) => item.text);
+  return texts.length > 0 ? texts.join('\n') : undefined;
+}
+
+/** 返回给模型的工具结果：优先使用文本内容，其他内容（图片、资源等）原样序列化 */
+export function stringifyToolResult(result: ToolCallResult): string {
+  if (result.error !== undefined) {
+    return result.error;
+  }
+  if (typeof result.result === 'string') {
+    return result.result;
+  }
+  return contentText(result.result) ?? JSON.stringify(result.result);
+}
+
+/**
+ * 累积 OpenAI 兼容流式响应中的 tool_calls 片段。
+ * 只有第一个片段带 id 和 name，后续片段只能通过 index 关联。
+ */
+export function mergeToolCallDeltas(
+  acc: Map<number, { id: string; name: string; arguments: string }>,
+  deltas: ChatCompletionChunk.Choice.Delta.ToolCall[]
+) {
+  for (const delta of deltas) {
+    let state = acc.get(delta.index);
+    if (!state) {
+      state = { id: delta.id || '', name: '', arguments: '' };
+      acc.set(delta.index, state);
+    }
+    if (delta.id) state.id = delta.id;
+    if (delta.function?.name) state.name = delta.function.name;
+    if (delta.function?.arguments) state.arguments += delta.function.arguments;
+  }
+}
@@ -0,0 +1,36 @@
+import type { Message } from './types';
+
+/**
+ * 拆出所有 system 消息（按顺序合并为一段），用于只支持顶层 system 参数的 provider
+ */
+export function splitSystemMessages<T extends Message>(messages: T[]): { system?: string; messages: T[] } {
+  const system = messages
+    .filter(msg => msg.role === 'system')
+    .map(msg => msg.content)
+    .filter(content => typeof content === 'string' && content.length > 0)
+    .join('\n\n');
+  return {
+    ...(system ? { system } : {}),
+    messages: messages.filter(msg => msg.role !== 'system')
+  };
+}
+
+/**
+ * 合并相邻的同角色消息（内容以空行连接），用于要求 user/assistant 严格交替的 provider。
+ * 带有其他字段（如 tool_calls、tool_call_id）或内容不是字符串的消息保持不变。
+ */
+export function mergeConsecutiveMessages<T extends Message>(messages: T[]): T[] {
+  const isPlain = (msg: T) =>
+    typeof msg.content === 'string' && Object.keys(msg).every(key => key === 'role' || key === 'content');
+
+  const merged: T[] = [];
+  for (const msg of messages) {
+    const last = merged[merged.length - 1];
+    if (last && last.role === msg.role && (msg.role === 'user' || msg.role === 'assistant') && isPlain(last) && isPlain(msg)) {
+      merged[merged.length - 1] = { ...last, content: `${last.content}\n\n${msg.content}` };
+    } else {
+      merged.push(msg);
+    }
+  }
+  return merged;
+}
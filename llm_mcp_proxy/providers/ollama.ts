@@ -1,6 +1,23 @@
 import { BaseProvider, ChatParams, ListModelsParams } from './types';
 import modelsMeta from '../models_meta.json';
 import { ModelMeta } from '../types';
+import {
+  MAX_TOOL_LOOPS,
+  buildToolRegistry,
+  ToolCallResult,
+  ToolExecutionOptions,
+  executeToolCalls,
+  stringifyToolResult,
+  toFunctionTools,
+  toolResultEvent
+} from './mcp_tools';
+import { ToolRegistry } from './tool_registry';
+import { UsageTracker, fromOllamaResponse } from '../utils/usage';
+import { withRetry } from '../utils/retry';
+import { ChunkBuilder, FinishReason, SSE_DONE, sseEvent } from './chunks';
+import { fromOllamaChat } from './completions';
+import { toOllamaOptions } from './generation';
+import { toOllamaFormat } from './structured_output';
 
 interface OllamaModel {
   name: string;
@@ -16,32 +33,115 @@ export class OllamaProvider implements BaseProvider {
     this.client = ollama.default;
   }
 
+  /**
+   * 默认客户端无法按请求取消，有 signal 时创建一个把 signal 附加到每次 fetch 的客户端
+   */
+  private async getClient(signal?: AbortSignal) {
+    if (!signal) {
+      return this.client;
+    }
+    const { Ollama } = await import('ollama');
+    return new Ollama({
+      fetch: (input, init) => fetch(input, {
+        ...init,
+        signal: init?.signal ? AbortSignal.any([init.signal, signal]) : signal
+      })
+    });
+  }
+
+  /**
+   * 执行工具调用，并把 assistant 的 tool_calls 与工具结果追加到对话历史。
+   * Ollama 的 tool_calls 没有 id，这里按顺序生成。
+   */
+  private async runToolCalls(
+    toolCalls: any[],
+    content: string,
+    registry: ToolRegistry,
+    history: any[],
+    options: ToolExecutionOptions = {}
+  ): Promise<ToolCallResult[]> {
+    const results = await executeToolCalls(registry, toolCalls.map((call, index) => ({
+      id: `call_${index}`,
+      name: call.function.name,
+      arguments: call.function.arguments
+    })), options);
+
+    history.push({ role: 'assistant', content, tool_calls: toolCalls });
+    for (const result of results) {
+      history.push({ role: 'tool', content: stringifyToolResult(result), tool_name: result.name });
+    }
+
+    return results;
+  }
+
   async chat(params: ChatParams) {
     if (!this.client) {
       await this.initialize();
     }
 
-    const response = await this.client.chat({
-      model: params.model,
-      messages: params.messages.map(msg => ({
-        role: msg.role,
-        content: msg.content
-      }))
-    });
+    const client = await this.getClient(params.signal);
+    const registry = await buildToolRegistry(params);
+    // Ollama 没有 tool_choice，none 时不提供工具
+    const tools = params.tool_choice === 'none' ? [] : toFunctionTools(registry);
+    const options = toOllamaOptions(params);
+    // 结构化输出：format 为 "json" 或 JSON schema
+    const format = toOllamaFormat(params.response_format);
+    const history: any[] = params.messages.map(msg => ({
+      role: msg.role,
+      content: msg.content
+    }));
+    const usage = new UsageTracker('ollama', params);
+
+    // 中途出错或请求取消时，已消耗的用量同样计入
+    try {
+      let loop = 0;
+      while (loop++ < MAX_TOOL_LOOPS) {
+        const response = await withRetry<any>('Ollama chat', () => client.chat({
+          model: params.model,
+          messages: history,
+          options,
+          ...format,
+          ...(tools.length > 0 ? { tools } : {})
+        }), params.signal);
+
+        usage.add(fromOllamaResponse(response));
+
+        const toolCalls = response.message?.tool_calls;
+        if (tools.length === 0 || !toolCalls || toolCalls.length === 0) {
+          return fromOllamaChat(response, usage.finish());
+        }
 
-    return response;
+        await this.runToolCalls(toolCalls, response.message.content || '', registry, history, {
+          signal: params.signal
+        });
+      }
+
+      // 达到最大循环次数，不再提供工具，让模型给出最终回答
+      const response = await withRetry<any>('Ollama chat', () => client.chat({
+        model: params.model,
+        messages: history,
+        options,
+        ...format
+      }), params.signal);
+      usage.add(fromOllamaResponse(response));
+      return fromOllamaChat(response, usage.finish());
+    } finally {
+      usage.finish();
+    }
   }
 
   async chatStream(params: ChatParams, stream: NodeJS.WritableStream) {
     try {
       await this.initialize();
       let streamEnded = false;
+      // 尚未输出任何内容时出错直接抛出，由路由决定是否切换到备用模型
+      let hasSent = false;
 
       const endStream = () => {
         if (!streamEnded) {
           streamEnded = true;
           try {
-            stream.write('data: [DONE]\n\n');
+            stream.write(SSE_DONE);
             stream.end();
           } catch (e) {
             console.error('Error ending stream:', e);
@@ -57,8 +157,8 @@ export class OllamaProvider implements BaseProvider {
               error: true,
               message: error.message
             };
-            stream.write(`data: ${JSON.stringify(errorEvent)}\n\n`);
-            stream.write('data: [DONE]\n\n');
+            stream.write(sseEvent(errorEvent));
+            stream.write(SSE_DONE);
             stream.end();
           } catch (e) {
             console.error('Error handling stream error:', e);
@@ -69,7 +169,8 @@ export class OllamaProvider implements BaseProvider {
       const writeToStream = (data: any) => {
         if (!streamEnded) {
           try {
-            stream.write(`data: ${JSON.stringify(data)}\n\n`);
+            hasSent = true;
+            stream.write(sseEvent(data));
           } catch (e) {
             console.error('Error writing to stream:', e);
             handleError(e);
@@ -77,35 +178,97 @@ export class OllamaProvider implements BaseProvider {
         }
       };
 
+      // 中途出错或请求取消时，已消耗的用量同样计入
+      const usage = new UsageTracker('ollama', params);
       try {
-        const response = await this.client.chat({
-          model: params.model,
-          messages: params.messages.map(msg => ({
-            role: msg.role,
-            content: msg.content
-          })),
-          stream: true
-        });
+        const client = await this.getClient(params.signal);
+        const registry = await buildToolRegistry(params, true);
+        // Ollama 没有 tool_choice，none 时不提供工具
+        const tools = params.tool_choice === 'none' ? [] : toFunctionTools(registry);
+        const options = toOllamaOptions(params);
+        const format = toOllamaFormat(params.response_format);
+        const history: any[] = params.messages.map(msg => ({
+          role: msg.role,
+          content: msg.content
+        }));
+        const chunks = new ChunkBuilder(params.model);
 
-        for await (const chunk of response) {
-          if (streamEnded) break;
+        for (let loop = 1; ; loop++) {
+          const reqStartTs = Date.now();
+          // 达到最大循环次数后不再提供工具，让模型给出最终回答
+          const withTools = tools.length > 0 && loop <= MAX_TOOL_LOOPS;
 
-          const event = {
+          const response = await withRetry<any>('Ollama stream', () => client.chat({
             model: params.model,
-            created_at: new Date().toISOString(),
-            message: {
-              role: 'assistant',
-              content: chunk.message.content
-            },
-            done: false
-          };
-
-          writeToStream(event);
+            messages: history,
+            stream: true,
+            options,
+            ...format,
+            ...(withTools ? { tools } : {})
+          }), params.signal);
+
+          let content = '';
+          const toolCalls: any[] = [];
+          let roleSent = false;
+
+          for await (const chunk of response) {
+            if (streamEnded) break;
+
+            // 最后一个 chunk（done: true）带有 token 统计
+            if (chunk.done) {
+              usage.add(fromOllamaResponse(chunk));
+            }
+
+            // 转换为 OpenAI chunk，tool_calls 的 id 与 runToolCalls 生成的一致
+            const delta: Record<string, any> = roleSent ? {} : { role: 'assistant' };
+            if (chunk.message?.content) {
+              content += chunk.message.content;
+              delta.content = chunk.message.content;
+            }
+            if (chunk.message?.tool_calls?.length) {
+              delta.tool_calls = chunk.message.tool_calls.map((call: any, i: number) => ({
+                index: toolCalls.length + i,
+                id: `call_${toolCalls.length + i}`,
+                type: 'function',
+                function: { name: call.function.name, arguments: JSON.stringify(call.function.arguments ?? {}) }
+              }));
+              toolCalls.push(...chunk.message.tool_calls);
+            }
+            let finishReason: FinishReason = null;
+            if (chunk.done) {
+              finishReason = toolCalls.length > 0 ? 'tool_calls' : chunk.done_reason === 'length' ? 'length' : 'stop';
+            }
+            if (delta.content || delta.tool_calls || finishReason) {
+              roleSent = true;
+              writeToStream(chunks.delta(delta, finishReason));
+            }
+          }
+
+          if (streamEnded || !withTools || toolCalls.length === 0) {
+            break;
+          }
+
+          const results = await this.runToolCalls(toolCalls, content, registry, history, {
+            requireApproval: !params.isYolo,
+            caller: params.caller,
+            send: writeToStream,
+            signal: params.signal
+          });
+          results.forEach(result => writeToStream(toolResultEvent(result)));
+
+          const duration = ((Date.now() - reqStartTs) / 1000).toFixed(1);
+          writeToStream({ type: 'loop_info', loop, duration });
         }
 
+        writeToStream(chunks.usage(usage.finish()));
         endStream();
       } catch (error) {
+        if (!hasSent) {
+          throw error;
+        }
         handleError(error);
+      } finally {
+        usage.finish();
       }
     } catch (error: any) {
       if (error.code === 'ECONNREFUSED') {
@@ -3,9 +3,15 @@ import { BaseProvider, ChatParams } from './types';
 import { Message } from '../types';
 import modelsMeta from '../models_meta.json';
 import { getMCPClientByName } from '../providers';
+import { ChunkBuilder, SSE_DONE, sseEvent } from './chunks';
+import { fromOpenAICompletion } from './completions';
+import { toOpenAIParams } from './generation';
+import { toOpenAIResponseFormat, withFormatInstruction } from './structured_output';
+import { UsageTracker, fromOpenAIUsage } from '../utils/usage';
 
 export class OpenAIProvider implements BaseProvider {
-  async chat({ model, messages, apiKey, mcpServerNames, isYolo }: ChatParams) {
+  async chat(params: ChatParams) {
+    const { model, messages, apiKey, mcpServerNames, isYolo } = params;
     console.log('OpenAI chat params:', { model, mcpServerNames, isYolo });
 
     // 如果指定了 MCP 服务器，先调用它们
@@ -30,7 +36,7 @@ export class OpenAIProvider implements BaseProvider {
     }
 
     const client = new OpenAI({ apiKey });
-    const formattedMessages = messages.map(msg => {
+    const formattedMessages = withFormatInstruction(messages, 'openai', model, params.response_format).map(msg => {
       switch (msg.role) {
         case 'system':
           return { role: 'system', content: msg.content } as const;
@@ -45,16 +51,21 @@ export class OpenAIProvider implements BaseProvider {
       }
     });
     
-    return client.chat.completions.create({ 
+    const response = await client.chat.completions.create({ 
       model, 
-      messages: formattedMessages 
+      messages: formattedMessages,
+      ...toOpenAIParams(params, 'max_completion_tokens'),
+      ...toOpenAIResponseFormat('openai', model, params.response_format)
     });
+    const usage = new UsageTracker('openai', params);
+    usage.add(fromOpenAIUsage(response.usage));
+    return fromOpenAICompletion(response, usage.finish());
   }
 
-  async chatStream({ model, messages, apiKey }: ChatParams, stream: NodeJS.WritableStream) {
-    const encoder = new TextEncoder();
+  async chatStream(params: ChatParams, stream: NodeJS.WritableStream) {
+    const { model, messages, apiKey } = params;
     const client = new OpenAI({ apiKey });
-    const formattedMessages = messages.map(msg => {
+    const formattedMessages = withFormatInstruction(messages, 'openai', model, params.response_format).map(msg => {
       switch (msg.role) {
         case 'system':
           return { role: 'system', content: msg.content } as const;
@@ -72,25 +83,20 @@ export class OpenAIProvider implements BaseProvider {
     const completion = await client.chat.completions.create({ 
       model, 
       messages: formattedMessages, 
-      stream: true 
+      stream: true,
+      ...toOpenAIParams(params, 'max_completion_tokens'),
+      ...toOpenAIResponseFormat('openai', model, params.response_format)
     });
     
+    const chunks = new ChunkBuilder(model);
     for await (const chunk of completion) {
-      if (chunk.choices[0]?.delta?.content) {
-        const event = {
-          model,
-          created_at: new Date().toISOString(),
-          message: {
-            role: 'assistant',
-            content: chunk.choices[0].delta.content
-          },
-          done: false
-        };
-        stream.write(encoder.encode(JSON.stringify(event) + '\n'));
+      const out = chunks.fromChunk(chunk);
+      if (out) {
+        stream.write(sseEvent(out));
       }
     }
     
-    stream.write('data: [DONE]\n\n');
+    stream.write(SSE_DONE);
     stream.end();
   }
 
@@ -0,0 +1,223 @@
+import type { Tool } from '@anthropic-ai/sdk/resources/messages';
+import type { ResponseFormatJSONObject, ResponseFormatJSONSchema } from 'openai/resources/shared';
+import type { ChatResponse } from '../types/chat';
+import type { Message, ResponseFormat } from './types';
+import { findModelMeta, addUsage } from '../utils/usage';
+import { SchemaValidationError, formatSchemaErrors, validateAgainstSchema } from '../utils/schema';
+import { repairJSON } from './mcp_tools';
+
+/** 输出不符合 response_format 时最多重新请求的次数 */
+export const MAX_RESPONSE_FORMAT_RETRIES = 3;
+
+/** json_schema 没有 name 时 Anthropic 强制调用的工具名 */
+const DEFAULT_RESPONSE_TOOL_NAME = 'json_response';
+
+/**
+ * 模型输出无法解析为 JSON 或不符合 schema
+ */
+export class StructuredOutputError extends Error {
+  constructor(
+    message: string,
+    public content: string | null,
+    public errors: SchemaValidationError[] = []
+  ) {
+    super(message);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+/** text 等同于不指定 response_format */
+function isJSONFormat(format?: ResponseFormat): format is Exclude<ResponseFormat, { type: 'text' }> {
+  return !!format && format.type !== 'text';
+}
+
+function getSchema(format: ResponseFormat): Record<string, any> | undefined {
+  return format.type === 'json_schema' ? format.json_schema.schema : undefined;
+}
+
+/**
+ * 校验 response_format，格式错误时抛出错误
+ */
+export function validateResponseFormat(format: unknown) {
+  const value = format as any;
+  if (!value || typeof value !== 'object' || !['text', 'json_object', 'json_schema'].includes(value.type)) {
+    throw new Error('"response_format.type" must be "text", "json_object" or "json_schema"');
+  }
+  if (value.type !== 'json_schema') {
+    return;
+  }
+  const jsonSchema = value.json_schema;
+  if (!jsonSchema || typeof jsonSchema !== 'object' || typeof jsonSchema.name !== 'string' || !/^[a-zA-Z0-9_-]{1,64}$/.test(jsonSchema.name)) {
+    throw new Error('"response_format.json_schema.name" must be 1-64 letters, digits, underscores or dashes');
+  }
+  if (jsonSchema.schema !== undefined && (!jsonSchema.schema || typeof jsonSchema.schema !== 'object' || Array.isArray(jsonSchema.schema))) {
+    throw new Error('"response_format.json_schema.schema" must be a JSON schema object');
+  }
+}
+
+/**
+ * Anthropic 通过强制调用工具实现结构化输出，工具参数只能是对象
+ */
+export function isResponseFormatSupported(provider: string, format: ResponseFormat): boolean {
+  if (provider !== 'anthropic') {
+    return true;
+  }
+  const schemaType = getSchema(format)?.type;
+  return schemaType === undefined || schemaType === 'object';
+}
+
+/** models_meta.json 中没有的 OpenAI 模型按支持处理 */
+function supportsResponseSchema(provider: string, model: string): boolean {
+  if (provider !== 'openai') {
+    return false;
+  }
+  const meta = findModelMeta(provider, model) as { supports_response_schema?: boolean } | undefined;
+  return !meta || !!meta.supports_response_schema;
+}
+
+/** 不能使用原生 json_schema 时，改用 json_object 并在 system 消息中给出 schema */
+function usesSchemaInstruction(provider: string, model: string, format?: ResponseFormat): boolean {
+  return format?.type === 'json_schema' && !supportsResponseSchema(provider, model);
+}
+
+/**
+ * OpenAI 兼容接口的 response_format。不支持 json_schema 的模型（包括 DeepSeek）降级为 json_object
+ */
+export function toOpenAIResponseFormat(
+  provider: string,
+  model: string,
+  format?: ResponseFormat
+): { response_format?: ResponseFormatJSONObject | ResponseFormatJSONSchema } {
+  if (!isJSONFormat(format)) {
+    return {};
+  }
+  if (format.type === 'json_schema' && !usesSchemaInstruction(provider, model, format)) {
+    return { response_format: format };
+  }
+  return { response_format: { type: 'json_object' } };
+}
+
+/**
+ * json_object 模式要求消息中出现 "JSON"，在最前面加一条 system 消息说明输出格式（降级时包括 schema）
+ */
+export function withFormatInstruction<T extends Message>(messages: T[], provider: string, model: string, format?: ResponseFormat): T[] {
+  if (!isJSONFormat(format) || (format.type === 'json_schema' && !usesSchemaInstruction(provider, model, format))) {
+    return messages;
+  }
+  const schema = getSchema(format);
+  const content = schema
+    ? `Respond only with a JSON object that conforms to this JSON schema:\n${JSON.stringify(schema)}`
+    : 'Respond only with a valid JSON object.';
+  return [{ role: 'system', content } as T, ...messages];
+}
+
+/** Ollama 的 format 可以是 "json" 或 JSON schema */
+export function toOllamaFormat(format?: ResponseFormat): { format?: string | Record<string, any> } {
+  if (!isJSONFormat(format)) {
+    return {};
+  }
+  return { format: getSchema(format) ?? 'json' };
+}
+
+/**
+ * Anthropic 没有 response_format，定义一个以 schema 为参数的工具并强制调用，工具参数即为输出
+ */
+export function toAnthropicResponseTool(format?: ResponseFormat): Tool | undefined {
+  if (!isJSONFormat(format)) {
+    return undefined;
+  }
+  if (format.type === 'json_object') {
+    return {
+      name: DEFAULT_RESPONSE_TOOL_NAME,
+      description: 'Respond to the user with a JSON object.',
+      input_schema: { type: 'object' }
+    };
+  }
+  const { name, description, schema } = format.json_schema;
+  return {
+    name: name || DEFAULT_RESPONSE_TOOL_NAME,
+    description: description || 'Respond to the user with a JSON object that conforms to the input schema.',
+    input_schema: (schema ?? { type: 'object' }) as Tool.InputSchema
+  };
+}
+
+/**
+ * 检查模型输出是否为合法 JSON 并符合 schema，返回输出内容（经过修复时为修复后的内容），不符合时抛出 StructuredOutputError
+ */
+export function checkStructuredOutput(content: string | null, format?: ResponseFormat): string | null {
+  if (!isJSONFormat(format)) {
+    return content;
+  }
+
+  let text = content ?? '';
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    // 与工具参数一样，尝试修复 markdown 代码块、多余的逗号等常见问题
+    text = repairJSON(text);
+    try {
+      value = JSON.parse(text);
+    } catch (error: any) {
+      throw new StructuredOutputError(`Response is not valid JSON: ${error.message}`, content);
+    }
+  }
+
+  const schema = getSchema(format);
+  if (!schema) {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      throw new StructuredOutputError('Response is not a JSON object', content);
+    }
+    return text;
+  }
+
+  const errors = validateAgainstSchema(schema, value);
+  if (errors.length > 0) {
+    throw new StructuredOutputError(`Response does not match the schema: ${formatSchemaErrors(errors)}`, content, errors);
+  }
+  return text;
+}
+
+/**
+ * 非流式请求的结构化输出：检查输出，不符合时把错误告诉模型并重新请求（最多 retries 次）。
+ * 重新请求会重跑整个工具循环，canRetry 返回 false（如已执行过 MCP 工具）时不再重试。
+ * 返回的 usage 为所有请求的总和
+ */
+export async function chatWithStructuredOutput(
+  chat: (messages: Message[]) => Promise<ChatResponse>,
+  messages: Message[],
+  format: ResponseFormat | undefined,
+  retries: number,
+  canRetry: () => boolean = () => true
+): Promise<ChatResponse> {
+  let history = messages;
+  let usage: ChatResponse['usage'] | undefined;
+
+  for (let attempt = 0; ; attempt++) {
+    const response = await chat(history);
+    usage = usage ? addUsage(usage, response.usage) : response.usage;
+
+    const choice = response.choices[0];
+    try {
+      const content = checkStructuredOutput(choice?.message.content ?? null, format);
+      if (!choice || content === choice.message.content) {
+        return { ...response, usage };
+      }
+      return { ...response, choices: [{ ...choice, message: { ...choice.message, content } }], usage };
+    } catch (error) {
+      if (!(error instanceof StructuredOutputError) || attempt >= retries) {
+        throw error;
+      }
+      if (!canRetry()) {
+        console.warn(`Not retrying invalid structured output because MCP tools have run: ${error.message}`);
+        throw error;
+      }
+      console.warn(`Invalid structured output (attempt ${attempt + 1}/${retries + 1}): ${error.message}`);
+      history = [
+        ...history,
+        { role: 'assistant', content: error.content ?? '' },
+        { role: 'user', content: `${error.message}. Reply again with only the corrected JSON.` }
+      ];
+    }
+  }
+}
@@ -0,0 +1,163 @@
+import { getMCPClientByName } from '../providers';
+import { getMCPConfig, getToolTimeout } from '../utils/mcp';
+import { ToolPolicy, isToolAllowed } from '../utils/tool_policy';
+
+/** 多个服务器存在同名工具时，使用 `${server}__${tool}` 作为对外名称 */
+export const TOOL_NAMESPACE_SEPARATOR = '__';
+
+/** 从 MCP 服务器 listTools 得到的工具描述 */
+export interface MCPTool {
+  /** 暴露给模型的名称（同名冲突时带服务器前缀） */
+  name: string;
+  /** MCP 服务器上的原始工具名 */
+  toolName: string;
+  description: string;
+  inputSchema: Record<string, any>;
+  serverName: string;
+}
+
+// listTools 可能返回 { tools: [...] } 或直接返回数组
+function extractTools(response: any): any[] {
+  if (typeof response === 'object' && response !== null && 'tools' in response) {
+    return (response as { tools: any[] }).tools;
+  }
+  return Array.isArray(response) ? response : [];
+}
+
+// OpenAI 要求函数名匹配 ^[a-zA-Z0-9_-]{1,64}$
+function sanitizeToolName(name: string): string {
+  return name.replace(/[^a-zA-Z0-9_-]/g, '_').slice(0, 64);
+}
+
+export function namespacedToolName(serverName: string, toolName: string): string {
+  return sanitizeToolName(`${serverName}${TOOL_NAMESPACE_SEPARATOR}${toolName}`);
+}
+
+/**
+ * 依次检查服务器配置和请求中的 allowedTools/deniedTools。
+ * 规则可以写原始工具名，也可以写 `server__tool` 形式。
+ */
+export function isToolPermitted(serverName: string, toolName: string, requestPolicy?: ToolPolicy): boolean {
+  const names = [toolName, namespacedToolName(serverName, toolName)];
+  const serverPolicy = getMCPConfig()?.mcpServers[serverName];
+  return isToolAllowed(names, serverPolicy) && isToolAllowed(names, requestPolicy);
+}
+
+/**
+ * 汇总多个 MCP 服务器的工具，并记录每个工具所属的服务器，
+ * 保证模型的工具调用被路由到正确的 Client。
+ */
+export class ToolRegistry {
+  private tools = new Map<string, MCPTool>();
+  private policy?: ToolPolicy;
+  private onToolExecuted?: () => void;
+
+  static async build(mcpServerNames: string[], policy?: ToolPolicy, onToolExecuted?: () => void): Promise<ToolRegistry> {
+    const registry = new ToolRegistry();
+    registry.policy = policy;
+    registry.onToolExecuted = onToolExecuted;
+    const serverTools: MCPTool[] = [];
+
+    for (const serverName of mcpServerNames) {
+      const client = await getMCPClientByName(serverName);
+      if (!client) {
+        throw new Error(`Failed to get MCP client for "${serverName}"`);
+      }
+
+      const response = await client.listTools();
+      for (const tool of extractTools(response)) {
+        if (!tool.name || !tool.inputSchema) {
+          console.warn(`Skipping invalid tool from "${serverName}":`, tool);
+          continue;
+        }
+        if (!isToolPermitted(serverName, tool.name, policy)) {
+          console.log(`Tool ${tool.name} from "${serverName}" is excluded by tool policy`);
+          continue;
+        }
+        serverTools.push({
+          name: tool.name,
+          toolName: tool.name,
+          description: tool.description || '',
+          inputSchema: tool.inputSchema,
+          serverName
+        });
+      }
+    }
+
+    // 统计同名工具，冲突的工具统一加上服务器前缀
+    const nameCounts = new Map<string, number>();
+    for (const tool of serverTools) {
+      nameCounts.set(tool.toolName, (nameCounts.get(tool.toolName) || 0) + 1);
+    }
+
+    for (const tool of serverTools) {
+      const baseName = nameCounts.get(tool.toolName)! > 1
+        ? namespacedToolName(tool.serverName, tool.toolName)
+        : sanitizeToolName(tool.toolName);
+      // 替换字符和截断后不同的工具可能得到相同名称，加数字后缀避免覆盖
+      let name = baseName;
+      for (let i = 2; registry.tools.has(name); i++) {
+        const suffix = `_${i}`;
+        name = `${baseName.slice(0, 64 - suffix.length)}${suffix}`;
+      }
+      if (name !== baseName) {
+        const existing = registry.tools.get(baseName)!;
+        console.error(`Tool name "${baseName}" of ${tool.toolName} on "${tool.serverName}" collides with ${existing.toolName} on "${existing.serverName}", exposing it as "${name}"`);
+      }
+      registry.tools.set(name, { ...tool, name });
+    }
+
+    console.log(`Registered ${registry.tools.size} MCP tools from:`, mcpServerNames);
+    return registry;
+  }
+
+  get size(): number {
+    return this.tools.size;
+  }
+
+  list(): MCPTool[] {
+    return [...this.tools.values()];
+  }
+
+  /**
+   * 根据模型给出的名称查找工具。
+   * 未冲突的工具也接受带服务器前缀的写法。
+   */
+  resolve(name: string): MCPTool | undefined {
+    const tool = this.tools.get(name);
+    if (tool) {
+      return tool;
+    }
+    for (const candidate of this.tools.values()) {
+      if (namespacedToolName(candidate.serverName, candidate.toolName) === name) {
+        return candidate;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * 调用工具，超时时间取自服务器配置；signal 触发时取消调用
+   */
+  async call(name: string, args: Record<string, any>, signal?: AbortSignal): Promise<any> {
+    const tool = this.resolve(name);
+    if (!tool) {
+      throw new Error(`No MCP client available for tool "${name}"`);
+    }
+    // 配置可能在对话过程中被热更新，执行前再检查一次
+    if (!isToolPermitted(tool.serverName, tool.toolName, this.policy)) {
+      throw new Error(`Tool "${name}" is not allowed by tool policy`);
+    }
+
+    const client = await getMCPClientByName(tool.serverName);
+    if (!client) {
+      throw new Error(`Failed to get MCP client for "${tool.serverName}"`);
+    }
+
+    const timeout = getToolTimeout(getMCPConfig()?.mcpServers[tool.serverName], tool.toolName);
+    console.log(`Invoking tool ${tool.toolName} on "${tool.serverName}" (timeout ${timeout}ms) with args:`, args);
+    // 工具可能有副作用，即使调用失败也视为已执行
+    this.onToolExecuted?.();
+    return client.callTool({ name: tool.toolName, arguments: args }, undefined, { signal, timeout });
+  }
+}
@@ -1,15 +1,45 @@
+import type { ToolPolicy } from '../utils/tool_policy';
+import type { ChatResponse } from '../types/chat';
+
 export interface ListModelsParams {
   apiKey?: string;
   provider?: string;
 }
 
-export interface ChatParams {
+export type ToolChoice = 'auto' | 'none' | 'required' | { type: 'function'; function: { name: string } };
+
+/** OpenAI 的 response_format */
+export type ResponseFormat =
+  | { type: 'text' }
+  | { type: 'json_object' }
+  | { type: 'json_schema'; json_schema: { name: string; description?: string; schema?: Record<string, any>; strict?: boolean } };
+
+/** OpenAI 风格的生成参数，由各 provider 转换为自己的格式 */
+export interface GenerationParams {
+  temperature?: number;
+  top_p?: number;
+  max_tokens?: number;
+  stop?: string | string[];
+  seed?: number;
+  presence_penalty?: number;
+  frequency_penalty?: number;
+  user?: string;
+  /** 只作用于工具循环的第一轮，之后的轮次使用 auto */
+  tool_choice?: ToolChoice;
+  response_format?: ResponseFormat;
+}
+
+export interface ChatParams extends ToolPolicy, GenerationParams {
   model: string;
   messages: Message[];
   apiKey?: string;  // API Key 可选参数
+  virtualKeyId?: string;  // 使用代理签发的虚拟 Key 时，用于统计用量和扣减预算
+  caller?: string;  // 调用方标识，工具审批只对同一调用方可见
   isYolo?: boolean;
-  mcpServerNames?: string[];
+  mcpServerNames?: string[];  // allowedTools/deniedTools 进一步限制这些服务器的工具
   stream?: boolean;  // 添加 stream 参数
+  signal?: AbortSignal;  // 客户端断开连接时取消上游请求和工具调用
+  onToolExecuted?: () => void;  // 执行 MCP 工具前调用，工具执行后路由不再切换备用模型
 }
 
 export interface Message {
@@ -18,7 +48,7 @@ export interface Message {
 }
 
 export interface BaseProvider {
-  chat(params: ChatParams): Promise<any>;
+  chat(params: ChatParams): Promise<ChatResponse>;
   chatStream(params: ChatParams, stream: NodeJS.WritableStream): Promise<void>;
   listModels(params?: ListModelsParams): Promise<Array<{ id: string; provider: string }>>;
 }
\ No newline at end of file
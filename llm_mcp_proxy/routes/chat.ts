@@ -1,66 +1,316 @@
-import { FastifyPluginAsync } from 'fastify';
+import { FastifyPluginAsync, FastifyReply, FastifyRequest } from 'fastify';
 import { getLLMProviderByName } from '../providers';
+import { ApprovalDecision, listPendingApprovals, resolveApproval } from '../utils/approvals';
+import { validateToolPolicy } from '../utils/tool_policy';
+import { KeyResolutionError, identifyCaller, resolveApiKey } from '../utils/virtual_keys';
+import { acquireRateLimit, rateLimitCaller } from '../utils/rate_limit';
+import { getModelChain } from '../utils/fallback';
+import { ModelTarget, resolveModelTarget } from '../utils/model_aliases';
+import { isRetryableError } from '../utils/retry';
+import { SSE_DONE, sseEvent } from '../providers/chunks';
+import { findUnsupportedParams, pickGenerationParams, validateGenerationParams } from '../providers/generation';
+import { MAX_RESPONSE_FORMAT_RETRIES, StructuredOutputError, chatWithStructuredOutput } from '../providers/structured_output';
 
 const chatRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.post('/completions', async (request, reply) => {
-    const { provider = 'ollama', model, messages, stream, isYolo, mcpServerNames } = request.body as any;
+    const { provider: requestedProvider, model: requestedModel, messages, stream, isYolo, mcpServerNames, allowedTools, deniedTools, includeRaw, responseFormatRetries = 0 } = request.body as any;
     const authHeader = request.headers.authorization;
-    let apiKey: string | undefined;
+    let token: string | undefined;
 
     if (authHeader && authHeader.startsWith('Bearer ')) {
-      apiKey = authHeader.substring(7);
+      token = authHeader.substring(7);
     }
 
-    if (!model) {
+    if (!requestedModel || typeof requestedModel !== 'string') {
       return reply.code(400).send({ error: 'Missing model parameter' });
     }
 
-    if (!apiKey && provider !== 'ollama') {
-      return reply.code(401).send({ 
-        error: 'Authentication failed',
-        message: 'Missing API Key. Please provide your API key in the Authorization header with Bearer scheme.'
+    // 支持 "provider/model" 形式的模型 ID 和模型别名，此后只使用解析后的 provider 和模型
+    const target = resolveModelTarget(requestedProvider, requestedModel, name => !!getLLMProviderByName(name));
+    if (!target) {
+      return reply.code(400).send({
+        error: 'Unknown model',
+        message: `Cannot tell which provider serves "${requestedModel}". Use "provider/model" (e.g. "ollama/${requestedModel}") or set "provider".`
       });
     }
+    const { provider, model } = target;
+
+    // temperature、max_tokens 等生成参数由各 provider 转换
+    const generation = pickGenerationParams(request.body as any);
+    try {
+      // 虚拟 Key 会检查 mcpServerNames，需在解析 Key 之前校验
+      if (mcpServerNames !== undefined && (!Array.isArray(mcpServerNames) || mcpServerNames.some((name: unknown) => typeof name !== 'string'))) {
+        throw new Error('"mcpServerNames" must be an array of strings');
+      }
+      validateToolPolicy({ allowedTools, deniedTools }, 'Request');
+      validateGenerationParams(generation);
+      if (!Number.isInteger(responseFormatRetries) || responseFormatRetries < 0 || responseFormatRetries > MAX_RESPONSE_FORMAT_RETRIES) {
+        throw new Error(`"responseFormatRetries" must be an integer between 0 and ${MAX_RESPONSE_FORMAT_RETRIES}`);
+      }
+    } catch (error: any) {
+      return reply.code(400).send({ error: error.message });
+    }
+
+    // 虚拟 Key 换成服务端保存的厂商 Key，其他 Key 直接转发
+    let apiKey: string | undefined;
+    let virtualKeyId: string | undefined;
+    try {
+      const resolved = await resolveApiKey(token, { provider, model, mcpServerNames });
+      apiKey = resolved.apiKey;
+      virtualKeyId = resolved.virtualKey?.id;
+    } catch (error: any) {
+      if (error instanceof KeyResolutionError) {
+        return reply.code(error.statusCode).send({
+          error: error.title,
+          message: error.message
+        });
+      }
+      throw error;
+    }
 
     const providerHandler = getLLMProviderByName(provider);
     if (!providerHandler) {
       return reply.code(400).send({ error: 'Unknown provider' });
     }
 
-    try {
-      if (stream) {
-        reply.raw.setHeader('Content-Type', 'text/event-stream');
-        reply.raw.setHeader('Cache-Control', 'no-cache');
-        reply.raw.setHeader('Connection', 'keep-alive');
-        reply.raw.setHeader('Transfer-Encoding', 'chunked');
-        reply.raw.setHeader('Access-Control-Allow-Origin', '*');
-        
+    const unsupported = findUnsupportedParams(provider, generation);
+    if (unsupported.length > 0) {
+      return reply.code(400).send({
+        error: 'Unsupported parameters',
+        message: `Provider "${provider}" does not support: ${unsupported.join(', ')}`
+      });
+    }
+
+    // 按调用方、provider 和模型限流，流式请求同样计数
+    const caller = rateLimitCaller(apiKey, virtualKeyId);
+    const limited = acquireRateLimit({ caller, provider, model });
+    if (limited) {
+      reply.header('Retry-After', String(limited.retryAfter));
+      return reply.code(429).send({
+        error: 'Rate limit exceeded',
+        message: `Too many ${limited.limit === 'rpm' ? 'requests' : 'tokens'} for ${limited.scope}, retry after ${limited.retryAfter}s`
+      });
+    }
+
+    /**
+     * 为备用模型准备 Key，无法使用时返回 null（跳过该模型）。
+     * 虚拟 Key 按备用模型重新检查限制；其他 Key 只能用于同一 provider 或本地 Ollama。
+     */
+    const resolveFallback = async (target: ModelTarget): Promise<{ apiKey?: string; virtualKeyId?: string } | null> => {
+      const label = `${target.provider}/${target.model}`;
+      if (!getLLMProviderByName(target.provider)) {
+        console.warn(`Skipping fallback ${label}: unknown provider`);
+        return null;
+      }
+      const unsupportedByTarget = findUnsupportedParams(target.provider, generation);
+      if (unsupportedByTarget.length > 0) {
+        console.warn(`Skipping fallback ${label}: unsupported parameters ${unsupportedByTarget.join(', ')}`);
+        return null;
+      }
+      let resolved: { apiKey?: string; virtualKeyId?: string };
+      if (virtualKeyId) {
         try {
-          await providerHandler.chatStream({ model, messages, apiKey, isYolo, mcpServerNames }, reply.raw);
+          const result = await resolveApiKey(token, { provider: target.provider, model: target.model, mcpServerNames });
+          resolved = { apiKey: result.apiKey, virtualKeyId: result.virtualKey?.id };
         } catch (error: any) {
-          // 对于流式响应，需要以 SSE 格式发送错误
-          const errorEvent = {
-            error: true,
-            message: error.message,
-            details: error.response?.data
-          };
-          reply.raw.write(`data: ${JSON.stringify(errorEvent)}\n\n`);
-          reply.raw.write('data: [DONE]\n\n');
-          reply.raw.end();
+          console.warn(`Skipping fallback ${label}: ${error.message}`);
+          return null;
         }
+      } else if (target.provider === provider || target.provider === 'ollama') {
+        resolved = { apiKey, virtualKeyId };
       } else {
-        const result = await providerHandler.chat({ model, messages, apiKey, isYolo, mcpServerNames });
-        reply.send(result);
+        console.warn(`Skipping fallback ${label}: no API key for provider "${target.provider}"`);
+        return null;
       }
-    } catch (error: any) {
-      // 对于非流式响应，直接发送错误对象
-      const statusCode = error.response?.status || 500;
-      reply.code(statusCode).send({
-        error: true,
-        message: error.message,
-        details: error.response?.data
+      const fallbackLimited = acquireRateLimit({ caller, provider: target.provider, model: target.model });
+      if (fallbackLimited) {
+        console.warn(`Skipping fallback ${label}: rate limit exceeded for ${fallbackLimited.scope}`);
+        return null;
+      }
+      return resolved;
+    };
+
+    // 客户端在响应结束前断开时，取消上游 LLM 请求和正在执行的工具
+    const controller = new AbortController();
+    const signal = controller.signal;
+    reply.raw.on('close', () => {
+      if (!reply.raw.writableEnded) {
+        console.log('Client disconnected, cancelling chat request');
+        controller.abort(new Error('Client disconnected'));
+      }
+    });
+
+    // 依次尝试请求的模型和备用模型，只有可重试的错误（429、5xx、网络错误）才切换；
+    // 流式请求在已向客户端输出内容后不再切换
+    const chain = getModelChain(provider, model);
+    let lastError: any;
+    // 已执行过 MCP 工具时不再切换，避免备用模型重复执行有副作用的工具
+    let toolsExecuted = false;
+    for (let i = 0; i < chain.length; i++) {
+      const target = chain[i];
+      const credentials = i === 0 ? { apiKey, virtualKeyId } : await resolveFallback(target);
+      if (!credentials) {
+        continue;
+      }
+      if (i > 0) {
+        console.log(`Falling back to ${target.provider}/${target.model}`);
+      }
+
+      const handler = getLLMProviderByName(target.provider)!;
+      const params = {
+        model: target.model,
+        messages,
+        ...credentials,
+        ...generation,
+        caller,
+        isYolo,
+        mcpServerNames,
+        allowedTools,
+        deniedTools,
+        signal,
+        onToolExecuted: () => {
+          toolsExecuted = true;
+        }
+      };
+
+      try {
+        if (stream) {
+          reply.raw.setHeader('Content-Type', 'text/event-stream');
+          reply.raw.setHeader('Cache-Control', 'no-cache');
+          reply.raw.setHeader('Connection', 'keep-alive');
+          reply.raw.setHeader('Transfer-Encoding', 'chunked');
+          reply.raw.setHeader('Access-Control-Allow-Origin', '*');
+          // 标明实际响应的 provider 和模型
+          reply.raw.setHeader('X-Proxy-Provider', target.provider);
+          reply.raw.setHeader('X-Proxy-Model', target.model);
+          await handler.chatStream(params, reply.raw);
+          return;
+        }
+        // 所有 provider 都返回 chat.completion，上游原始响应只在 includeRaw 时返回。
+        // 指定 response_format 时检查输出，不符合时按 responseFormatRetries 重新请求；
+        // 已执行过 MCP 工具时不重试，避免重复执行有副作用的工具
+        const { raw, ...completion } = await chatWithStructuredOutput(
+          history => handler.chat({ ...params, messages: history }),
+          messages,
+          generation.response_format,
+          responseFormatRetries,
+          () => !toolsExecuted
+        );
+        reply.header('X-Proxy-Provider', target.provider);
+        reply.header('X-Proxy-Model', target.model);
+        return reply.send({ ...completion, provider: target.provider, ...(includeRaw ? { raw } : {}) });
+      } catch (error: any) {
+        lastError = error;
+        // 连接已关闭，无需再写入
+        if (signal.aborted) {
+          console.log('Chat request cancelled:', error.message);
+          return;
+        }
+        const canFallback = isRetryableError(error) && !(stream && reply.raw.headersSent) && !toolsExecuted;
+        if (!canFallback) {
+          break;
+        }
+        console.warn(`${target.provider}/${target.model} failed: ${error.message}`);
+      }
+    }
+
+    if (stream) {
+      // 对于流式响应，需要以 SSE 格式发送错误
+      if (!reply.raw.writableEnded) {
+        const errorEvent = {
+          error: true,
+          message: lastError.message,
+          details: lastError.response?.data
+        };
+        reply.raw.write(sseEvent(errorEvent));
+        reply.raw.write(SSE_DONE);
+        reply.raw.end();
+      }
+      return;
+    }
+
+    // 模型输出不符合 response_format（已用完重试次数）
+    if (lastError instanceof StructuredOutputError) {
+      return reply.code(502).send({
+        error: 'Invalid structured output',
+        message: lastError.message,
+        details: lastError.errors
       });
     }
+
+    // 对于非流式响应，直接发送错误对象
+    const statusCode = lastError.response?.status || 500;
+    reply.code(statusCode).send({
+      error: true,
+      message: lastError.message,
+      details: lastError.response?.data
+    });
+  });
+
+  /**
+   * 审批接口使用与对话相同的 Authorization，只能查看和处理自己发起的工具调用
+   */
+  const approvalCaller = async (request: FastifyRequest, reply: FastifyReply): Promise<string | null> => {
+    const authHeader = request.headers.authorization;
+    const token = authHeader && authHeader.startsWith('Bearer ') ? authHeader.substring(7) : undefined;
+    try {
+      return await identifyCaller(token);
+    } catch (error: any) {
+      if (error instanceof KeyResolutionError) {
+        reply.code(error.statusCode).send({
+          error: error.title,
+          message: error.message
+        });
+        return null;
+      }
+      throw error;
+    }
+  };
+
+  // 获取等待审批的工具调用
+  fastify.get('/approvals', async (request, reply) => {
+    const caller = await approvalCaller(request, reply);
+    if (caller === null) {
+      return reply;
+    }
+    return listPendingApprovals(caller);
+  });
+
+  // 提交工具调用审批结果（非 YOLO 模式）
+  fastify.post('/approvals/:id', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const { action, arguments: args, reason } = (request.body || {}) as any;
+
+    let decision: ApprovalDecision;
+    switch (action) {
+      case 'approve':
+        decision = { action: 'approve' };
+        break;
+      case 'reject':
+        decision = { action: 'reject', reason };
+        break;
+      case 'edit':
+        if (!args || typeof args !== 'object' || Array.isArray(args)) {
+          return reply.code(400).send({ error: 'Missing arguments object for edit action' });
+        }
+        decision = { action: 'edit', arguments: args };
+        break;
+      default:
+        return reply.code(400).send({
+          error: 'Invalid action',
+          message: "action must be one of 'approve', 'reject' or 'edit'"
+        });
+    }
+
+    const caller = await approvalCaller(request, reply);
+    if (caller === null) {
+      return reply;
+    }
+    if (!resolveApproval(id, decision, caller)) {
+      return reply.code(404).send({ error: `Approval "${id}" not found or already resolved` });
+    }
+
+    return { id, action };
   });
 };
 
@@ -0,0 +1,69 @@
+import { FastifyPluginAsync } from 'fastify';
+import { requireConfiguredAdminToken } from '../utils/admin';
+import {
+  VirtualKeyUpdate,
+  createVirtualKey,
+  deleteVirtualKey,
+  getVirtualKey,
+  listVirtualKeys,
+  updateVirtualKey
+} from '../utils/virtual_keys';
+
+// 管理代理签发的虚拟 API Key，所有接口都需要管理员 Token（未设置 PROXY_ADMIN_TOKEN 时不可用）
+const keysRoutes: FastifyPluginAsync = async (fastify) => {
+  fastify.addHook('preHandler', requireConfiguredAdminToken);
+
+  fastify.get('/keys', async () => {
+    return listVirtualKeys();
+  });
+
+  // 签发新 Key，明文 Key 只在这里返回一次
+  fastify.post('/keys', async (request, reply) => {
+    try {
+      const { key, virtualKey } = await createVirtualKey((request.body || {}) as VirtualKeyUpdate);
+      return reply.code(201).send({ ...virtualKey, key });
+    } catch (error: any) {
+      return reply.code(400).send({
+        error: 'Invalid virtual key',
+        details: error.message
+      });
+    }
+  });
+
+  fastify.get('/keys/:id', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const virtualKey = await getVirtualKey(id);
+    if (!virtualKey) {
+      return reply.code(404).send({ error: `Virtual key "${id}" not found` });
+    }
+    return virtualKey;
+  });
+
+  // 修改限制；{ "spent": 0 } 可重置已用额度
+  fastify.patch('/keys/:id', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    let virtualKey;
+    try {
+      virtualKey = await updateVirtualKey(id, (request.body || {}) as VirtualKeyUpdate);
+    } catch (error: any) {
+      return reply.code(400).send({
+        error: 'Invalid virtual key',
+        details: error.message
+      });
+    }
+    if (!virtualKey) {
+      return reply.code(404).send({ error: `Virtual key "${id}" not found` });
+    }
+    return virtualKey;
+  });
+
+  fastify.delete('/keys/:id', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    if (!(await deleteVirtualKey(id))) {
+      return reply.code(404).send({ error: `Virtual key "${id}" not found` });
+    }
+    return { id, deleted: true };
+  });
+};
+
+export default keysRoutes;
@@ -1,32 +1,305 @@
-import { FastifyInstance } from 'fastify';
-import { getMCPClientByName } from '../providers';
+import { FastifyInstance, FastifyReply } from 'fastify';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import {
+  getMCPClientByName,
+  getMCPServerState,
+  removeMCPServer,
+  restartMCPServer,
+  updateMCPServer
+} from '../providers';
+import {
+  MCPServerConfig,
+  getMCPConfig,
+  getToolTimeout,
+  getTransportType,
+  loadMCPClientByConfig,
+  saveMCPConfig,
+  validateServerConfig
+} from '../utils/mcp';
+import { requireAdminToken } from '../utils/admin';
+import { validateAgainstSchema } from '../utils/schema';
+import { isToolPermitted } from '../providers/tool_registry';
+
+// 服务器配置与连接状态，未使用过的服务器状态为 idle
+function describeServer(name: string, config: MCPServerConfig) {
+  const state = getMCPServerState(name);
+  return {
+    name,
+    transport: getTransportType(config),
+    config,
+    status: state?.status || 'idle',
+    reconnectAttempts: state?.reconnectAttempts || 0,
+    lastError: state?.lastError,
+    connectedAt: state?.connectedAt,
+    lastPingAt: state?.lastPingAt
+  };
+}
+
+// JSON-RPC 错误码：服务器未实现该方法
+const METHOD_NOT_FOUND = -32601;
+
+/**
+ * 获取 MCP 客户端并执行操作，统一处理服务器不存在和调用失败的情况
+ */
+async function withMCPClient(
+  reply: FastifyReply,
+  serverName: string,
+  errorMessage: string,
+  handler: (client: Client) => Promise<any>
+) {
+  try {
+    // 获取 MCP 客户端
+    const client = await getMCPClientByName(serverName);
+    if (!client) {
+      return reply.status(404).send({
+        error: `MCP server "${serverName}" not found or not configured`
+      });
+    }
+
+    return await handler(client);
+  } catch (error: any) {
+    console.error(`${errorMessage}:`, error);
+    return reply.status(error?.code === METHOD_NOT_FOUND ? 501 : 500).send({
+      error: errorMessage,
+      details: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
+
+function shouldPersist(query: unknown): boolean {
+  const { persist } = (query || {}) as { persist?: string };
+  return persist === 'true' || persist === '1';
+}
 
 export default async function mcpRoutes(fastify: FastifyInstance) {
-  fastify.get('/mcp/:serverName/tools', async (request, reply) => {
-    try {
-      const { serverName } = request.params as { serverName: string };
+  // 以下直接访问 MCP 服务器的接口不受虚拟 Key 的 mcpServers 限制（资源可能包含文件内容），
+  // 因此都需要管理员权限
+  fastify.get('/mcp/:serverName/tools', { preHandler: requireAdminToken }, async (request, reply) => {
+    const { serverName } = request.params as { serverName: string };
+    return withMCPClient(reply, serverName, 'Failed to get MCP tools', async client => {
+      // 获取工具列表
+      const tools = await client.listTools();
       
-      // 获取 MCP 客户端
-      const client = await getMCPClientByName(serverName);
-      if (!client) {
+      return {
+        server: serverName,
+        tools
+      };
+    });
+  });
+
+  // 直接调用工具（不经过 LLM），请求体即工具参数，会先按 inputSchema 校验，不经过审批
+  fastify.post('/mcp/:serverName/tools/:toolName/call', { preHandler: requireAdminToken }, async (request, reply) => {
+    const { serverName, toolName } = request.params as { serverName: string; toolName: string };
+    const args = request.body === undefined || request.body === null ? {} : request.body;
+    if (typeof args !== 'object' || Array.isArray(args)) {
+      return reply.status(400).send({ error: 'Tool arguments must be a JSON object' });
+    }
+
+    return withMCPClient(reply, serverName, 'Failed to call MCP tool', async client => {
+      const response: any = await client.listTools();
+      const tools: any[] = Array.isArray(response) ? response : response?.tools || [];
+      const tool = tools.find(t => t.name === toolName);
+      if (!tool) {
         return reply.status(404).send({
-          error: `MCP server "${serverName}" not found or not configured`
+          error: `Tool "${toolName}" not found on MCP server "${serverName}"`
         });
       }
 
-      // 获取工具列表
-      const tools = await client.listTools();
-      
+      if (!isToolPermitted(serverName, toolName)) {
+        return reply.status(403).send({
+          error: `Tool "${toolName}" is not allowed by the tool policy of MCP server "${serverName}"`
+        });
+      }
+
+      const errors = tool.inputSchema ? validateAgainstSchema(tool.inputSchema, args) : [];
+      if (errors.length > 0) {
+        return reply.status(400).send({
+          error: 'Invalid tool arguments',
+          details: errors
+        });
+      }
+
+      // 与对话中的工具调用一样使用配置的超时，客户端断开时取消调用
+      const controller = new AbortController();
+      reply.raw.on('close', () => {
+        if (!reply.raw.writableEnded) {
+          controller.abort(new Error('Client disconnected'));
+        }
+      });
+      const timeout = getToolTimeout(getMCPConfig()?.mcpServers[serverName], toolName);
+      const result = await client.callTool(
+        { name: toolName, arguments: args as Record<string, any> },
+        undefined,
+        { signal: controller.signal, timeout }
+      );
       return {
         server: serverName,
-        tools
+        tool: toolName,
+        result
+      };
+    });
+  });
+
+  // 获取资源列表
+  fastify.get('/mcp/:serverName/resources', { preHandler: requireAdminToken }, async (request, reply) => {
+    const { serverName } = request.params as { serverName: string };
+    return withMCPClient(reply, serverName, 'Failed to get MCP resources', async client => {
+      const resources = await client.listResources();
+      return {
+        server: serverName,
+        resources
+      };
+    });
+  });
+
+  // 读取资源内容
+  fastify.get('/mcp/:serverName/resources/read', { preHandler: requireAdminToken }, async (request, reply) => {
+    const { serverName } = request.params as { serverName: string };
+    const { uri } = request.query as { uri?: string };
+    if (!uri) {
+      return reply.status(400).send({ error: 'Missing uri query parameter' });
+    }
+
+    return withMCPClient(reply, serverName, 'Failed to read MCP resource', async client => {
+      const resource = await client.readResource({ uri });
+      return {
+        server: serverName,
+        uri,
+        ...resource
+      };
+    });
+  });
+
+  // 获取 prompt 列表
+  fastify.get('/mcp/:serverName/prompts', { preHandler: requireAdminToken }, async (request, reply) => {
+    const { serverName } = request.params as { serverName: string };
+    return withMCPClient(reply, serverName, 'Failed to get MCP prompts', async client => {
+      const prompts = await client.listPrompts();
+      return {
+        server: serverName,
+        prompts
+      };
+    });
+  });
+
+  // 渲染 prompt，请求体为 { "arguments": { ... } }
+  fastify.post('/mcp/:serverName/prompts/:promptName', { preHandler: requireAdminToken }, async (request, reply) => {
+    const { serverName, promptName } = request.params as { serverName: string; promptName: string };
+    const { arguments: args = {} } = (request.body || {}) as { arguments?: Record<string, any> };
+    if (typeof args !== 'object' || Array.isArray(args)) {
+      return reply.status(400).send({ error: 'Prompt arguments must be an object' });
+    }
+
+    return withMCPClient(reply, serverName, 'Failed to get MCP prompt', async client => {
+      const prompt = await client.getPrompt({ name: promptName, arguments: args });
+      return {
+        server: serverName,
+        name: promptName,
+        ...prompt
       };
+    });
+  });
+
+  // 获取所有 MCP 服务器及其连接状态
+  fastify.get('/mcp/servers', { preHandler: requireAdminToken }, async (request, reply) => {
+    try {
+      const config = await loadMCPClientByConfig();
+      return Object.entries(config.mcpServers || {}).map(([name, serverConfig]) => describeServer(name, serverConfig));
     } catch (error) {
-      console.error('Error getting MCP tools:', error);
+      console.error('Error listing MCP servers:', error);
       return reply.status(500).send({
-        error: 'Failed to get MCP tools',
+        error: 'Failed to list MCP servers',
+        details: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  // 获取单个 MCP 服务器
+  fastify.get('/mcp/servers/:serverName', { preHandler: requireAdminToken }, async (request, reply) => {
+    const { serverName } = request.params as { serverName: string };
+    const config = await loadMCPClientByConfig();
+    const serverConfig = config.mcpServers?.[serverName];
+    if (!serverConfig) {
+      return reply.status(404).send({ error: `MCP server "${serverName}" not found` });
+    }
+    return describeServer(serverName, serverConfig);
+  });
+
+  // 创建或更新 MCP 服务器，?persist=true 时写回 mcp_servers.json
+  fastify.put('/mcp/servers/:serverName', { preHandler: requireAdminToken }, async (request, reply) => {
+    const { serverName } = request.params as { serverName: string };
+    const serverConfig = request.body as MCPServerConfig;
+
+    try {
+      validateServerConfig(serverName, serverConfig);
+    } catch (error) {
+      return reply.status(400).send({
+        error: 'Invalid MCP server config',
         details: error instanceof Error ? error.message : String(error)
       });
     }
+
+    try {
+      const config = await loadMCPClientByConfig();
+      const existed = Boolean(config.mcpServers?.[serverName]);
+
+      await updateMCPServer(serverName, serverConfig);
+      if (shouldPersist(request.query)) {
+        await saveMCPConfig();
+      }
+
+      return reply.status(existed ? 200 : 201).send(describeServer(serverName, serverConfig));
+    } catch (error) {
+      console.error(`Error updating MCP server "${serverName}":`, error);
+      return reply.status(500).send({
+        error: `Failed to update MCP server "${serverName}"`,
+        details: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  // 删除 MCP 服务器并关闭连接，?persist=true 时写回 mcp_servers.json
+  fastify.delete('/mcp/servers/:serverName', { preHandler: requireAdminToken }, async (request, reply) => {
+    const { serverName } = request.params as { serverName: string };
+
+    try {
+      await loadMCPClientByConfig();
+      const removed = await removeMCPServer(serverName);
+      if (!removed) {
+        return reply.status(404).send({ error: `MCP server "${serverName}" not found` });
+      }
+      if (shouldPersist(request.query)) {
+        await saveMCPConfig();
+      }
+      return { name: serverName, deleted: true };
+    } catch (error) {
+      console.error(`Error deleting MCP server "${serverName}":`, error);
+      return reply.status(500).send({
+        error: `Failed to delete MCP server "${serverName}"`,
+        details: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  // 重启 MCP 服务器连接
+  fastify.post('/mcp/servers/:serverName/restart', { preHandler: requireAdminToken }, async (request, reply) => {
+    const { serverName } = request.params as { serverName: string };
+    const config = await loadMCPClientByConfig();
+    const serverConfig = config.mcpServers?.[serverName];
+    if (!serverConfig) {
+      return reply.status(404).send({ error: `MCP server "${serverName}" not found` });
+    }
+
+    // 从未连接过的服务器直接建立连接
+    const client = getMCPServerState(serverName)
+      ? await restartMCPServer(serverName)
+      : await getMCPClientByName(serverName);
+    if (!client) {
+      return reply.status(502).send({
+        ...describeServer(serverName, serverConfig),
+        error: `Failed to restart MCP server "${serverName}"`
+      });
+    }
+    return describeServer(serverName, serverConfig);
   });
-} 
\ No newline at end of file
+}
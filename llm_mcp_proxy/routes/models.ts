@@ -1,6 +1,7 @@
 import { FastifyPluginAsync } from 'fastify';
 import { allProviders, getLLMProviderByName } from '../providers';
 import modelsMeta from '../models_meta.json';
+import { KeyResolutionError, resolveApiKey } from '../utils/virtual_keys';
 
 type ModelsMetaType = typeof modelsMeta;
 type ProviderName = keyof ModelsMetaType;
@@ -110,10 +111,10 @@ const modelsRoute: FastifyPluginAsync = async (fastify) => {
   fastify.get('/models/:provider', async (request, reply) => {
     const { provider } = request.params as { provider: string };
     const authHeader = request.headers.authorization;
-    let apiKey: string | undefined;
+    let token: string | undefined;
 
     if (authHeader && authHeader.startsWith('Bearer ')) {
-      apiKey = authHeader.substring(7);
+      token = authHeader.substring(7);
     }
 
     try {
@@ -123,13 +124,19 @@ const modelsRoute: FastifyPluginAsync = async (fastify) => {
         return;
       }
 
-      // 对于需要 API Key 的提供商进行验证
-      if (!apiKey && provider !== 'ollama') {
-        reply.code(401).send({ 
-          error: 'Authentication failed',
-          message: 'Missing API Key. Please provide your API key in the Authorization header with Bearer scheme.'
-        });
-        return;
+      // 对于需要 API Key 的提供商进行验证，虚拟 Key 换成服务端保存的厂商 Key
+      let apiKey: string | undefined;
+      try {
+        apiKey = (await resolveApiKey(token, { provider })).apiKey;
+      } catch (error: any) {
+        if (error instanceof KeyResolutionError) {
+          reply.code(error.statusCode).send({
+            error: error.title,
+            message: error.message
+          });
+          return;
+        }
+        throw error;
       }
 
       const models = await providerInstance.listModels({ apiKey, provider });
@@ -0,0 +1,12 @@
+import { FastifyPluginAsync } from 'fastify';
+import { requireAdminToken } from '../utils/admin';
+import { getUsageSummary } from '../utils/usage';
+
+const usageRoutes: FastifyPluginAsync = async (fastify) => {
+  // 按 provider、模型和 API Key 汇总的 token 用量与费用
+  fastify.get('/usage', { preHandler: requireAdminToken }, async () => {
+    return getUsageSummary();
+  });
+};
+
+export default usageRoutes;
@@ -19,6 +19,7 @@ export interface ModelMeta {
   input_cost_per_token_batches?: number;
   output_cost_per_token_batches?: number;
   cache_read_input_token_cost?: number;
+  cache_creation_input_token_cost?: number;
   supported_endpoints?: string[];
   supported_modalities?: string[];
   supported_output_modalities?: string[];
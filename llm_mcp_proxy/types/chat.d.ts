@@ -1,3 +1,6 @@
+import type { ChatCompletion } from 'openai/resources/chat/completions';
+import type { Usage } from '../utils/usage';
+
 export interface Message {
     role: string;
     content: string;
@@ -10,8 +13,11 @@ export interface ChatParams {
     mcpServerNames?: string[];
 }
 
-export interface ChatResponse {
-    choices: {
-        message: Message;
-    }[];
-} 
\ No newline at end of file
+/**
+ * 所有 provider 的非流式响应都转换为 OpenAI 的 chat.completion
+ */
+export interface ChatResponse extends Omit<ChatCompletion, 'usage'> {
+    usage: Usage;
+    /** 上游原始响应，仅在请求 includeRaw: true 时返回 */
+    raw?: unknown;
+}
@@ -4,15 +4,24 @@ declare module '@modelcontextprotocol/sdk/client/index.js' {
     version: string;
   }
 
+  export interface RequestOptions {
+    signal?: AbortSignal;
+    timeout?: number;
+  }
+
   export class Client {
     constructor(config: ClientConfig);
+    onclose?: () => void;
+    onerror?: (error: Error) => void;
     connect(transport: any): Promise<void>;
+    close(): Promise<void>;
+    ping(): Promise<any>;
     listTools(): Promise<any[]>;
     listPrompts(): Promise<any[]>;
     getPrompt(params: { name: string; arguments: Record<string, any> }): Promise<any>;
     listResources(): Promise<any[]>;
     readResource(params: { uri: string }): Promise<any>;
-    callTool(params: { name: string; arguments: Record<string, any> }): Promise<any>;
+    callTool(params: { name: string; arguments: Record<string, any> }, resultSchema?: any, options?: RequestOptions): Promise<any>;
   }
 }
 
@@ -20,9 +29,33 @@ declare module '@modelcontextprotocol/sdk/client/stdio.js' {
   export interface StdioTransportConfig {
     command: string;
     args?: string[];
+    env?: Record<string, string>;
+    cwd?: string;
   }
 
   export class StdioClientTransport {
     constructor(config: StdioTransportConfig);
   }
-} 
\ No newline at end of file
+
+  export function getDefaultEnvironment(): Record<string, string>;
+}
+
+declare module '@modelcontextprotocol/sdk/client/sse.js' {
+  export interface SSEClientTransportOptions {
+    requestInit?: { headers?: Record<string, string> };
+  }
+
+  export class SSEClientTransport {
+    constructor(url: URL, opts?: SSEClientTransportOptions);
+  }
+}
+
+declare module '@modelcontextprotocol/sdk/client/streamableHttp.js' {
+  export interface StreamableHTTPClientTransportOptions {
+    requestInit?: { headers?: Record<string, string> };
+  }
+
+  export class StreamableHTTPClientTransport {
+    constructor(url: URL, opts?: StreamableHTTPClientTransportOptions);
+  }
+}
@@ -0,0 +1,46 @@
+import { FastifyReply, FastifyRequest } from 'fastify';
+
+const LOOPBACK_ADDRESSES = ['127.0.0.1', '::1', '::ffff:127.0.0.1'];
+
+// 使用 socket 地址而不是 request.ip，避免通过 X-Forwarded-For 伪造
+function isLoopbackRequest(request: FastifyRequest): boolean {
+  return LOOPBACK_ADDRESSES.includes(request.socket.remoteAddress || '');
+}
+
+/**
+ * 管理接口鉴权。
+ * 设置了 PROXY_ADMIN_TOKEN 时，请求必须携带 Authorization: Bearer <PROXY_ADMIN_TOKEN>；
+ * 未设置时只接受来自本机的请求。
+ */
+export async function requireAdminToken(request: FastifyRequest, reply: FastifyReply) {
+  const adminToken = process.env.PROXY_ADMIN_TOKEN;
+  if (!adminToken) {
+    if (isLoopbackRequest(request)) {
+      return;
+    }
+    return reply.code(403).send({
+      error: 'Forbidden',
+      message: 'Admin endpoints only accept local requests when PROXY_ADMIN_TOKEN is not set.'
+    });
+  }
+
+  if (request.headers.authorization !== `Bearer ${adminToken}`) {
+    return reply.code(401).send({
+      error: 'Authentication failed',
+      message: 'Missing or invalid admin token. Please provide PROXY_ADMIN_TOKEN in the Authorization header with Bearer scheme.'
+    });
+  }
+}
+
+/**
+ * 签发虚拟 Key 等会动用服务端厂商 Key 的接口：必须设置 PROXY_ADMIN_TOKEN，未设置时一律拒绝
+ */
+export async function requireConfiguredAdminToken(request: FastifyRequest, reply: FastifyReply) {
+  if (!process.env.PROXY_ADMIN_TOKEN) {
+    return reply.code(403).send({
+      error: 'Forbidden',
+      message: 'Set PROXY_ADMIN_TOKEN to manage virtual keys.'
+    });
+  }
+  return requireAdminToken(request, reply);
+}
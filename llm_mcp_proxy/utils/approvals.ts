@@ -0,0 +1,73 @@
+import { randomUUID } from 'crypto';
+
+/** 等待审批的超时时间，超时视为拒绝 */
+export const APPROVAL_TIMEOUT_MS = 5 * 60 * 1000;
+
+export type ApprovalDecision =
+  | { action: 'approve' }
+  | { action: 'reject'; reason?: string }
+  | { action: 'edit'; arguments: Record<string, any> };
+
+export interface PendingApproval {
+  id: string;
+  toolCallId: string;
+  toolName: string;
+  serverName: string;
+  arguments: Record<string, any>;
+  createdAt: string;
+}
+
+interface ApprovalEntry extends PendingApproval {
+  /** 发起对话的调用方，只有同一调用方可以查看和审批 */
+  caller: string;
+  resolve: (decision: ApprovalDecision) => void;
+  timer: NodeJS.Timeout;
+}
+
+// 存储等待用户审批的工具调用
+const pendingApprovals: Map<string, ApprovalEntry> = new Map();
+
+/**
+ * 登记一个待审批的工具调用，返回审批 ID 以及等待审批结果的 Promise
+ */
+export function createApproval(request: Omit<PendingApproval, 'id' | 'createdAt'>, caller: string): {
+  approval: PendingApproval;
+  decision: Promise<ApprovalDecision>;
+} {
+  const id = randomUUID();
+  const createdAt = new Date().toISOString();
+
+  const decision = new Promise<ApprovalDecision>(resolve => {
+    const timer = setTimeout(() => {
+      console.log(`Approval "${id}" timed out`);
+      pendingApprovals.delete(id);
+      resolve({ action: 'reject', reason: 'Approval timed out' });
+    }, APPROVAL_TIMEOUT_MS);
+
+    pendingApprovals.set(id, { ...request, id, createdAt, caller, resolve, timer });
+  });
+
+  return { approval: { ...request, id, createdAt }, decision };
+}
+
+/**
+ * 提交审批结果，审批不存在、已处理或不属于 caller 时返回 false。
+ * 不传 caller 仅用于代理内部（如请求取消时拒绝）
+ */
+export function resolveApproval(id: string, decision: ApprovalDecision, caller?: string): boolean {
+  const entry = pendingApprovals.get(id);
+  if (!entry || (caller !== undefined && entry.caller !== caller)) {
+    return false;
+  }
+
+  clearTimeout(entry.timer);
+  pendingApprovals.delete(id);
+  entry.resolve(decision);
+  return true;
+}
+
+export function listPendingApprovals(caller: string): PendingApproval[] {
+  return [...pendingApprovals.values()]
+    .filter(entry => entry.caller === caller)
+    .map(({ resolve, timer, caller, ...approval }) => approval);
+}
@@ -0,0 +1,70 @@
+import fs from 'fs';
+import path from 'path';
+import { ModelTarget, parseModelTarget, resolveModelAlias } from './model_aliases';
+
+/**
+ * 备用模型链，以 `${provider}/${model}` 为键，值为按顺序尝试的备用模型（也可以是模型别名），例如：
+ * { "openai/gpt-4o": ["deepseek/deepseek-chat", "ollama/llama3"] }
+ */
+export type FallbackConfig = Record<string, string[]>;
+
+let fallbackConfig: FallbackConfig = {};
+
+// 与 mcp_servers.json 一样位于项目根目录，文件不存在时不切换备用模型
+export function getFallbackConfigPath(): string {
+  return path.join(process.cwd(), 'fallbacks.json');
+}
+
+// 别名优先，与请求中的 model 一致
+function parseFallbackTarget(value: string): ModelTarget | null {
+  return resolveModelAlias(value) ?? parseModelTarget(value);
+}
+
+/**
+ * 校验备用模型配置，格式错误时抛出错误。需要在加载模型别名之后调用
+ */
+export function validateFallbackConfig(config: FallbackConfig) {
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    throw new Error('Fallback configuration must be an object');
+  }
+  for (const [key, chain] of Object.entries(config)) {
+    if (!parseModelTarget(key)) {
+      throw new Error(`Invalid fallback key "${key}", expected "provider/model"`);
+    }
+    if (!Array.isArray(chain) || chain.some(item => typeof item !== 'string' || !parseFallbackTarget(item))) {
+      throw new Error(`Fallbacks for "${key}" must be an array of "provider/model" strings or model aliases`);
+    }
+  }
+}
+
+export function initializeFallbacks(config: FallbackConfig) {
+  validateFallbackConfig(config);
+  fallbackConfig = config;
+}
+
+export async function loadFallbackConfig(): Promise<FallbackConfig> {
+  try {
+    const content = await fs.promises.readFile(getFallbackConfigPath(), 'utf-8');
+    return JSON.parse(content) as FallbackConfig;
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return {};
+    }
+    console.error('Failed to load fallback configuration:', error);
+    throw error;
+  }
+}
+
+/**
+ * 返回依次尝试的模型：请求的模型在前，随后是配置的备用模型（去重）
+ */
+export function getModelChain(provider: string, model: string): ModelTarget[] {
+  const chain: ModelTarget[] = [{ provider, model }];
+  for (const item of fallbackConfig[`${provider}/${model}`] || []) {
+    const target = parseFallbackTarget(item)!;
+    if (!chain.some(existing => existing.provider === target.provider && existing.model === target.model)) {
+      chain.push(target);
+    }
+  }
+  return chain;
+}
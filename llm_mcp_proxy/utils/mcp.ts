@@ -1,10 +1,30 @@
 import fs from 'fs';
 import path from 'path';
 import os from 'os';
+import { StdioClientTransport, getDefaultEnvironment } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { ToolPolicy, validateToolPolicy } from './tool_policy';
 
-export interface MCPServerConfig {
-  command: string;
-  args: string[];
+export type MCPTransportType = 'stdio' | 'sse' | 'streamable-http';
+
+/**
+ * 本地服务器通过 command/args 启动（stdio），可指定 env 和 cwd；
+ * 远程服务器通过 url 连接，type 为 sse 或 streamable-http（默认）。
+ * 所有字符串字段都支持 ${VAR} / ${VAR:-default} 引用代理进程的环境变量。
+ * allowedTools/deniedTools 限制该服务器对模型开放的工具。
+ */
+export interface MCPServerConfig extends ToolPolicy {
+  type?: MCPTransportType;
+  /** 工具调用超时（毫秒），toolTimeouts 可按工具名单独设置 */
+  toolTimeout?: number;
+  toolTimeouts?: Record<string, number>;
+  command?: string;
+  args?: string[];
+  env?: Record<string, string>;
+  cwd?: string;
+  url?: string;
+  headers?: Record<string, string>;
 }
 
 export interface MCPConfig {
@@ -15,10 +35,198 @@ export interface MCPConfig {
 
 let mcpConfig: MCPConfig | null = null;
 
+/** 单次工具调用的默认超时时间，可在服务器配置中通过 toolTimeout/toolTimeouts 覆盖 */
+export const DEFAULT_TOOL_TIMEOUT_MS = 60 * 1000;
+
+/** 配置文件变更后的防抖时间，编辑器保存时通常会连续触发多个事件 */
+export const CONFIG_RELOAD_DEBOUNCE_MS = 300;
+
+export function getTransportType(config: MCPServerConfig): MCPTransportType {
+  if (config.type) {
+    return config.type;
+  }
+  return config.url ? 'streamable-http' : 'stdio';
+}
+
+const ENV_VAR_PATTERN = /\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g;
+
+function interpolateString(value: string, missing: Set<string>): string {
+  return value.replace(ENV_VAR_PATTERN, (_match, name: string, defaultValue?: string) => {
+    const envValue = process.env[name];
+    if (envValue !== undefined) {
+      return envValue;
+    }
+    if (defaultValue !== undefined) {
+      return defaultValue;
+    }
+    missing.add(name);
+    return '';
+  });
+}
+
+function interpolateValue<T>(value: T, missing: Set<string>): T {
+  if (typeof value === 'string') {
+    return interpolateString(value, missing) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => interpolateValue(item, missing)) as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, interpolateValue(item, missing)])
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * 展开配置中的 ${VAR} 引用。
+ * 配置本身保留占位符，只在连接时展开，避免密钥被写回配置文件。
+ */
+export function resolveServerConfig(serverName: string, config: MCPServerConfig): MCPServerConfig {
+  const missing = new Set<string>();
+  const resolved = interpolateValue(config, missing);
+  if (missing.size > 0) {
+    throw new Error(`MCP server "${serverName}" references undefined environment variables: ${[...missing].join(', ')}`);
+  }
+
+  if (resolved.cwd) {
+    const cwd = resolved.cwd.startsWith('~') ? path.join(os.homedir(), resolved.cwd.slice(1)) : resolved.cwd;
+    resolved.cwd = path.resolve(process.cwd(), cwd);
+  }
+  return resolved;
+}
+
+function isValidTimeout(value: unknown): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+function validateToolTimeouts(serverName: string, config: MCPServerConfig) {
+  if (config.toolTimeout !== undefined && !isValidTimeout(config.toolTimeout)) {
+    throw new Error(`MCP server "${serverName}" has invalid "toolTimeout", expected a positive number of milliseconds`);
+  }
+  if (config.toolTimeouts !== undefined) {
+    if (!config.toolTimeouts || typeof config.toolTimeouts !== 'object' || Array.isArray(config.toolTimeouts)
+      || !Object.values(config.toolTimeouts).every(isValidTimeout)) {
+      throw new Error(`MCP server "${serverName}" has invalid "toolTimeouts", expected an object of positive numbers`);
+    }
+  }
+}
+
+function isStringArray(value: unknown): boolean {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function isStringRecord(value: unknown): boolean {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+    && Object.values(value).every(item => typeof item === 'string');
+}
+
+/** 获取工具调用的超时时间：toolTimeouts > toolTimeout > 默认值 */
+export function getToolTimeout(config: MCPServerConfig | undefined, toolName: string): number {
+  return config?.toolTimeouts?.[toolName] ?? config?.toolTimeout ?? DEFAULT_TOOL_TIMEOUT_MS;
+}
+
+/**
+ * 校验单个服务器配置，配置无效时抛出错误
+ */
+export function validateServerConfig(serverName: string, config: MCPServerConfig) {
+  if (!config || typeof config !== 'object') {
+    throw new Error(`Invalid config for MCP server "${serverName}"`);
+  }
+  validateToolPolicy(config, `MCP server "${serverName}"`);
+  validateToolTimeouts(serverName, config);
+
+  const type = getTransportType(config);
+  switch (type) {
+    case 'stdio':
+      if (!config.command || typeof config.command !== 'string') {
+        throw new Error(`MCP server "${serverName}" requires a string "command" for stdio transport`);
+      }
+      if (config.args !== undefined && !isStringArray(config.args)) {
+        throw new Error(`MCP server "${serverName}" has invalid "args", expected an array of strings`);
+      }
+      if (config.env !== undefined && !isStringRecord(config.env)) {
+        throw new Error(`MCP server "${serverName}" has invalid "env", expected an object of strings`);
+      }
+      if (config.cwd !== undefined && typeof config.cwd !== 'string') {
+        throw new Error(`MCP server "${serverName}" has invalid "cwd", expected a string`);
+      }
+      break;
+    case 'sse':
+    case 'streamable-http':
+      if (!config.url || typeof config.url !== 'string') {
+        throw new Error(`MCP server "${serverName}" requires a string "url" for ${type} transport`);
+      }
+      if (config.headers !== undefined && !isStringRecord(config.headers)) {
+        throw new Error(`MCP server "${serverName}" has invalid "headers", expected an object of strings`);
+      }
+      // 含有 ${VAR} 的 url 在连接时才能校验
+      if (!config.url.includes('${')) {
+        try {
+          new URL(config.url);
+        } catch {
+          throw new Error(`MCP server "${serverName}" has invalid url "${config.url}"`);
+        }
+      }
+      break;
+    default:
+      throw new Error(`MCP server "${serverName}" has unknown transport type "${type}"`);
+  }
+}
+
+/**
+ * 根据配置创建对应的 MCP SDK 传输层
+ */
+export function createMCPTransport(serverName: string, rawConfig: MCPServerConfig) {
+  validateServerConfig(serverName, rawConfig);
+  const config = resolveServerConfig(serverName, rawConfig);
+
+  const type = getTransportType(config);
+  switch (type) {
+    case 'sse':
+      return new SSEClientTransport(new URL(config.url!), {
+        requestInit: { headers: config.headers || {} }
+      });
+    case 'streamable-http':
+      return new StreamableHTTPClientTransport(new URL(config.url!), {
+        requestInit: { headers: config.headers || {} }
+      });
+    default:
+      return new StdioClientTransport({
+        command: config.command!,
+        args: config.args || [],
+        // 子进程只继承安全的默认环境变量，再叠加配置中的 env
+        ...(config.env ? { env: { ...getDefaultEnvironment(), ...config.env } } : {}),
+        ...(config.cwd ? { cwd: config.cwd } : {})
+      });
+  }
+}
+
 export function initializeMCPConfig(config: MCPConfig) {
   mcpConfig = config;
 }
 
+export function getMCPConfig(): MCPConfig | null {
+  return mcpConfig;
+}
+
+/**
+ * 解析并校验完整的 MCP 配置，任何一个服务器配置无效都会抛出错误
+ */
+export function parseMCPConfig(content: string): MCPConfig {
+  const config = JSON.parse(content);
+  if (!config || typeof config !== 'object' || !config.mcpServers
+    || typeof config.mcpServers !== 'object' || Array.isArray(config.mcpServers)) {
+    throw new Error('MCP configuration must contain an "mcpServers" object');
+  }
+
+  for (const [serverName, serverConfig] of Object.entries(config.mcpServers)) {
+    validateServerConfig(serverName, serverConfig as MCPServerConfig);
+  }
+  return config as MCPConfig;
+}
+
 export function updateServerConfig(serverName: string, serverConfig: MCPServerConfig) {
   if (!mcpConfig) {
     mcpConfig = {
@@ -28,6 +236,32 @@ export function updateServerConfig(serverName: string, serverConfig: MCPServerCo
   mcpConfig.mcpServers[serverName] = serverConfig;
 }
 
+export function removeServerConfig(serverName: string): boolean {
+  if (!mcpConfig?.mcpServers[serverName]) {
+    return false;
+  }
+  delete mcpConfig.mcpServers[serverName];
+  return true;
+}
+
+// 配置文件位于项目根目录
+export function getMCPConfigPath(): string {
+  return path.join(process.cwd(), 'mcp_servers.json');
+}
+
+/**
+ * 把当前配置写回 mcp_servers.json。
+ * 先写临时文件再重命名，避免写入中途失败导致配置文件损坏。
+ */
+export async function saveMCPConfig(): Promise<void> {
+  const configPath = getMCPConfigPath();
+  const tmpPath = `${configPath}.tmp`;
+  const content = JSON.stringify(mcpConfig || { mcpServers: {} }, null, 2) + '\n';
+  await fs.promises.writeFile(tmpPath, content, 'utf-8');
+  await fs.promises.rename(tmpPath, configPath);
+  console.log(`Saved MCP configuration to ${configPath}`);
+}
+
 export async function loadMCPClientByConfig(): Promise<MCPConfig> {
   // 如果已经初始化过配置，直接返回
   if (mcpConfig) {
@@ -35,13 +269,69 @@ export async function loadMCPClientByConfig(): Promise<MCPConfig> {
   }
 
   try {
-    // 从项目根目录读取配置文件
-    const configPath = path.join(process.cwd(), 'mcp_servers.json');
+    // 从项目根目录读取配置文件，与热更新使用相同的校验
+    const configPath = getMCPConfigPath();
     const configContent = await fs.promises.readFile(configPath, 'utf-8');
-    mcpConfig = JSON.parse(configContent) as MCPConfig;
+    mcpConfig = parseMCPConfig(configContent);
     return mcpConfig;
   } catch (error) {
     console.error('Failed to load MCP configuration:', error);
     throw error;
   }
-} 
\ No newline at end of file
+} 
+/**
+ * 监听 mcp_servers.json 的变化，校验通过后回调新配置；
+ * 无效的修改只记录日志，继续使用上一次有效的配置。
+ * 返回停止监听的函数。
+ */
+export function watchMCPConfig(onChange: (config: MCPConfig) => Promise<void>): () => void {
+  const configPath = getMCPConfigPath();
+  const fileName = path.basename(configPath);
+  let debounceTimer: NodeJS.Timeout | null = null;
+  // 串行执行重载，避免两次重载同时操作服务器
+  let reloading: Promise<void> = Promise.resolve();
+
+  const reload = async () => {
+    let config: MCPConfig;
+    try {
+      const content = await fs.promises.readFile(configPath, 'utf-8');
+      config = parseMCPConfig(content);
+    } catch (error: any) {
+      console.error(`Ignoring invalid MCP configuration change in ${configPath}:`, error.message);
+      return;
+    }
+
+    try {
+      await onChange(config);
+    } catch (error) {
+      console.error('Failed to apply MCP configuration change:', error);
+    }
+  };
+
+  // 监听所在目录而不是文件本身：编辑器和 saveMCPConfig 都会用重命名替换文件
+  const watcher = fs.watch(path.dirname(configPath), (_eventType, changedFile) => {
+    if (changedFile !== fileName) {
+      return;
+    }
+    if (debounceTimer) {
+      clearTimeout(debounceTimer);
+    }
+    debounceTimer = setTimeout(() => {
+      debounceTimer = null;
+      reloading = reloading.then(reload);
+    }, CONFIG_RELOAD_DEBOUNCE_MS);
+  });
+  watcher.on('error', error => {
+    console.error(`Error watching ${configPath}:`, error);
+  });
+  watcher.unref();
+  console.log(`Watching ${configPath} for changes`);
+
+  return () => {
+    if (debounceTimer) {
+      clearTimeout(debounceTimer);
+      debounceTimer = null;
+    }
+    watcher.close();
+  };
+}
@@ -0,0 +1,289 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { MCPServerConfig, createMCPTransport } from './mcp';
+
+/** 心跳间隔 */
+export const PING_INTERVAL_MS = 30 * 1000;
+/** 心跳超时，超时视为服务器已失联 */
+export const PING_TIMEOUT_MS = 10 * 1000;
+/** 重连退避的初始/最大间隔 */
+export const RECONNECT_BASE_DELAY_MS = 1000;
+export const RECONNECT_MAX_DELAY_MS = 30 * 1000;
+/** 连续重连失败达到该次数后停止自动重连，下次使用时再尝试 */
+export const MAX_RECONNECT_ATTEMPTS = 10;
+
+export type MCPServerStatus = 'connecting' | 'connected' | 'reconnecting' | 'failed' | 'stopped';
+
+export interface MCPServerState {
+  name: string;
+  status: MCPServerStatus;
+  reconnectAttempts: number;
+  lastError?: string;
+  connectedAt?: string;
+  lastPingAt?: string;
+}
+
+interface ManagedServer extends MCPServerState {
+  config: MCPServerConfig;
+  client: Client | null;
+  connecting: Promise<Client | null> | null;
+  reconnectTimer: NodeJS.Timeout | null;
+  // 主动关闭时不触发重连
+  closing: boolean;
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(message)), ms);
+    promise.then(
+      value => { clearTimeout(timer); resolve(value); },
+      error => { clearTimeout(timer); reject(error); }
+    );
+  });
+}
+
+/**
+ * 管理 MCP 客户端的生命周期：
+ * 监听连接关闭/错误、按指数退避重连、定期 ping、替换或停止时关闭传输层。
+ */
+export class MCPSupervisor {
+  private servers: Map<string, ManagedServer> = new Map();
+  private pingTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * 获取已连接的客户端；尚未连接（或之前连接失败）时立即连接
+   */
+  async getClient(name: string, config: MCPServerConfig): Promise<Client | null> {
+    let server = this.servers.get(name);
+    if (!server) {
+      server = this.createEntry(name, config);
+    }
+
+    if (server.client && server.status === 'connected') {
+      return server.client;
+    }
+    if (server.connecting) {
+      return server.connecting;
+    }
+
+    this.clearReconnect(server);
+    server.config = config;
+    return this.connect(server);
+  }
+
+  /**
+   * 用新配置替换服务器：先关闭旧连接，再建立新连接
+   */
+  async replace(name: string, config: MCPServerConfig): Promise<Client | null> {
+    await this.stop(name);
+    return this.connect(this.createEntry(name, config));
+  }
+
+  /**
+   * 关闭服务器连接并从管理列表中移除
+   */
+  async stop(name: string): Promise<void> {
+    const server = this.servers.get(name);
+    if (!server) {
+      return;
+    }
+
+    console.log(`Stopping MCP server "${name}"`);
+    this.servers.delete(name);
+    this.clearReconnect(server);
+    server.status = 'stopped';
+    await this.closeClient(server);
+    this.updatePingTimer();
+  }
+
+  async stopAll(): Promise<void> {
+    await Promise.all([...this.servers.keys()].map(name => this.stop(name)));
+  }
+
+  /** 重新连接服务器（保留当前配置） */
+  async restart(name: string): Promise<Client | null> {
+    const server = this.servers.get(name);
+    if (!server) {
+      return null;
+    }
+    return this.replace(name, server.config);
+  }
+
+  getState(name: string): MCPServerState | null {
+    const server = this.servers.get(name);
+    if (!server) {
+      return null;
+    }
+    const { name: serverName, status, reconnectAttempts, lastError, connectedAt, lastPingAt } = server;
+    return { name: serverName, status, reconnectAttempts, lastError, connectedAt, lastPingAt };
+  }
+
+  listStates(): MCPServerState[] {
+    return [...this.servers.keys()].map(name => this.getState(name)!);
+  }
+
+  private createEntry(name: string, config: MCPServerConfig): ManagedServer {
+    const server: ManagedServer = {
+      name,
+      config,
+      status: 'connecting',
+      reconnectAttempts: 0,
+      client: null,
+      connecting: null,
+      reconnectTimer: null,
+      closing: false
+    };
+    this.servers.set(name, server);
+    return server;
+  }
+
+  private connect(server: ManagedServer): Promise<Client | null> {
+    const connecting = (async () => {
+      server.status = server.reconnectAttempts > 0 ? 'reconnecting' : 'connecting';
+      let client: Client | null = null;
+
+      try {
+        console.log(`Creating transport for server "${server.name}"`);
+        const transport = createMCPTransport(server.name, server.config);
+
+        console.log(`Creating client for server "${server.name}"`);
+        client = new Client({
+          name: `mcp-client-${server.name}`,
+          version: "1.0.0"
+        });
+
+        client.onerror = (error: Error) => {
+          console.error(`MCP server "${server.name}" error:`, error);
+          server.lastError = error.message;
+        };
+        const current = client;
+        client.onclose = () => this.handleClose(server, current);
+
+        console.log(`Connecting to server "${server.name}"`);
+        await client.connect(transport);
+        console.log(`Successfully connected to server "${server.name}"`);
+
+        // 连接期间服务器可能已被替换或停止
+        if (this.servers.get(server.name) !== server) {
+          await client.close().catch(() => {});
+          return null;
+        }
+
+        server.client = client;
+        server.status = 'connected';
+        server.reconnectAttempts = 0;
+        server.lastError = undefined;
+        server.connectedAt = new Date().toISOString();
+        this.updatePingTimer();
+        return client;
+      } catch (error: any) {
+        console.error(`Failed to connect to server "${server.name}":`, error);
+        server.lastError = error.message;
+        server.status = 'failed';
+        // 确保已启动的子进程被关闭
+        await client?.close().catch(() => {});
+        return null;
+      } finally {
+        server.connecting = null;
+      }
+    })();
+
+    server.connecting = connecting;
+    return connecting;
+  }
+
+  private handleClose(server: ManagedServer, client: Client) {
+    // 旧客户端的关闭事件，或主动关闭
+    if (server.client !== client && server.client !== null) {
+      return;
+    }
+    server.client = null;
+    if (server.closing || this.servers.get(server.name) !== server) {
+      return;
+    }
+
+    console.warn(`MCP server "${server.name}" connection closed unexpectedly`);
+    this.scheduleReconnect(server);
+  }
+
+  private scheduleReconnect(server: ManagedServer) {
+    if (server.reconnectTimer || server.connecting) {
+      return;
+    }
+    if (server.reconnectAttempts >= MAX_RECONNECT_ATTEMPTS) {
+      console.error(`Giving up reconnecting to MCP server "${server.name}" after ${server.reconnectAttempts} attempts`);
+      server.status = 'failed';
+      return;
+    }
+
+    const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** server.reconnectAttempts, RECONNECT_MAX_DELAY_MS);
+    server.reconnectAttempts++;
+    server.status = 'reconnecting';
+    console.log(`Reconnecting to MCP server "${server.name}" in ${delay}ms (attempt ${server.reconnectAttempts})`);
+
+    server.reconnectTimer = setTimeout(async () => {
+      server.reconnectTimer = null;
+      const client = await this.connect(server);
+      if (!client && this.servers.get(server.name) === server) {
+        this.scheduleReconnect(server);
+      }
+    }, delay);
+    server.reconnectTimer.unref();
+  }
+
+  private clearReconnect(server: ManagedServer) {
+    if (server.reconnectTimer) {
+      clearTimeout(server.reconnectTimer);
+      server.reconnectTimer = null;
+    }
+  }
+
+  private async closeClient(server: ManagedServer) {
+    const client = server.client;
+    server.client = null;
+    if (!client) {
+      return;
+    }
+
+    server.closing = true;
+    try {
+      await client.close();
+    } catch (error) {
+      console.error(`Error closing MCP server "${server.name}":`, error);
+    } finally {
+      server.closing = false;
+    }
+  }
+
+  /**
+   * 定期 ping 所有已连接的服务器，失联的服务器关闭后重连
+   */
+  private async pingAll() {
+    for (const server of this.servers.values()) {
+      const client = server.client;
+      if (!client || server.status !== 'connected') {
+        continue;
+      }
+
+      try {
+        await withTimeout(client.ping(), PING_TIMEOUT_MS, `Ping timed out after ${PING_TIMEOUT_MS}ms`);
+        server.lastPingAt = new Date().toISOString();
+      } catch (error: any) {
+        console.error(`Ping to MCP server "${server.name}" failed:`, error);
+        server.lastError = error.message;
+        await this.closeClient(server);
+        this.scheduleReconnect(server);
+      }
+    }
+  }
+
+  private updatePingTimer() {
+    const hasClients = [...this.servers.values()].some(server => server.client);
+    if (hasClients && !this.pingTimer) {
+      this.pingTimer = setInterval(() => this.pingAll(), PING_INTERVAL_MS);
+      this.pingTimer.unref();
+    } else if (!hasClients && this.pingTimer) {
+      clearInterval(this.pingTimer);
+      this.pingTimer = null;
+    }
+  }
+}
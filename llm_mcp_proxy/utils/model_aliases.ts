@@ -0,0 +1,108 @@
+import fs from 'fs';
+import path from 'path';
+import modelsMeta from '../models_meta.json';
+import { findModelMeta } from './usage';
+
+/**
+ * 模型别名，值为 `${provider}/${model}`，例如：
+ * { "fast": "ollama/llama3", "smart": "anthropic/claude-3-5-sonnet-20241022" }
+ */
+export type ModelAliasConfig = Record<string, string>;
+
+export interface ModelTarget {
+  provider: string;
+  model: string;
+}
+
+let modelAliases: ModelAliasConfig = {};
+
+// 与 mcp_servers.json 一样位于项目根目录，文件不存在时没有别名
+export function getModelAliasesPath(): string {
+  return path.join(process.cwd(), 'model_aliases.json');
+}
+
+/**
+ * 解析 `${provider}/${model}`，模型名本身可以包含 /（如 ollama 的 library/llama3）
+ */
+export function parseModelTarget(value: string): ModelTarget | null {
+  const index = value.indexOf('/');
+  if (index <= 0 || index === value.length - 1) {
+    return null;
+  }
+  return { provider: value.slice(0, index), model: value.slice(index + 1) };
+}
+
+/**
+ * 校验别名配置，格式错误时抛出错误
+ */
+export function validateModelAliases(config: ModelAliasConfig) {
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    throw new Error('Model alias configuration must be an object');
+  }
+  for (const [alias, target] of Object.entries(config)) {
+    if (typeof target !== 'string' || !parseModelTarget(target)) {
+      throw new Error(`Alias "${alias}" must map to a "provider/model" string`);
+    }
+  }
+}
+
+export function initializeModelAliases(config: ModelAliasConfig) {
+  validateModelAliases(config);
+  modelAliases = config;
+}
+
+export async function loadModelAliases(): Promise<ModelAliasConfig> {
+  try {
+    const content = await fs.promises.readFile(getModelAliasesPath(), 'utf-8');
+    return JSON.parse(content) as ModelAliasConfig;
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return {};
+    }
+    console.error('Failed to load model aliases:', error);
+    throw error;
+  }
+}
+
+export function getModelAliases(): ModelAliasConfig {
+  return modelAliases;
+}
+
+export function resolveModelAlias(name: string): ModelTarget | null {
+  return Object.prototype.hasOwnProperty.call(modelAliases, name) ? parseModelTarget(modelAliases[name]) : null;
+}
+
+/**
+ * 把请求中的 provider 和 model 解析为实际调用的 provider 和模型：
+ * 1. 别名优先，此时忽略请求中的 provider；
+ * 2. 指定了 provider 时，去掉模型名中相同的 provider 前缀；
+ * 3. 未指定 provider 时，按模型名的前缀（必须是已知的 provider）拆分；
+ * 4. 没有前缀时按 models_meta.json 推断，无法推断时返回 null。
+ */
+export function resolveModelTarget(
+  provider: string | undefined,
+  model: string,
+  isKnownProvider: (name: string) => boolean
+): ModelTarget | null {
+  const alias = resolveModelAlias(model);
+  if (alias) {
+    return alias;
+  }
+  const prefixed = parseModelTarget(model);
+  if (provider) {
+    return prefixed && prefixed.provider === provider ? prefixed : { provider, model };
+  }
+  if (prefixed && isKnownProvider(prefixed.provider)) {
+    return prefixed;
+  }
+  const inferred = inferProvider(model, isKnownProvider);
+  return inferred ? { provider: inferred, model } : null;
+}
+
+/**
+ * 按 models_meta.json 推断模型所属的 provider，未收录或属于多个 provider 时返回 null
+ */
+function inferProvider(model: string, isKnownProvider: (name: string) => boolean): string | null {
+  const providers = Object.keys(modelsMeta).filter(name => isKnownProvider(name) && findModelMeta(name, model));
+  return providers.length === 1 ? providers[0] : null;
+}
@@ -0,0 +1,185 @@
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+
+/** 限流统计的滑动窗口 */
+export const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+
+export interface RateLimit {
+  /** 每分钟请求数 */
+  rpm?: number;
+  /** 每分钟 token 数（请求结束后按实际用量计入） */
+  tpm?: number;
+}
+
+/**
+ * 限流配置。keys 以虚拟 Key 的 ID 为键，"default" 适用于其他所有调用方；
+ * models 以 `${provider}/${model}` 为键。
+ */
+export interface RateLimitConfig {
+  keys?: Record<string, RateLimit>;
+  providers?: Record<string, RateLimit>;
+  models?: Record<string, RateLimit>;
+}
+
+export interface RateLimitTarget {
+  /** 调用方标识，见 rateLimitCaller */
+  caller: string;
+  provider: string;
+  model: string;
+}
+
+export interface RateLimitRejection {
+  /** 触发限流的范围，如 key:vk_xxx、provider:openai */
+  scope: string;
+  limit: 'rpm' | 'tpm';
+  /** 建议的重试等待时间（秒） */
+  retryAfter: number;
+}
+
+interface WindowEvent {
+  time: number;
+  requests: number;
+  tokens: number;
+}
+
+let rateLimitConfig: RateLimitConfig = {};
+// 每个限流范围最近一分钟内的请求和 token 记录，仅保存在内存中
+const windows: Map<string, WindowEvent[]> = new Map();
+let lastSweep = 0;
+
+export function initializeRateLimits(config: RateLimitConfig) {
+  rateLimitConfig = config;
+}
+
+// 与 mcp_servers.json 一样位于项目根目录，文件不存在时不限流
+export function getRateLimitConfigPath(): string {
+  return path.join(process.cwd(), 'rate_limits.json');
+}
+
+export async function loadRateLimitConfig(): Promise<RateLimitConfig> {
+  try {
+    const content = await fs.promises.readFile(getRateLimitConfigPath(), 'utf-8');
+    return JSON.parse(content) as RateLimitConfig;
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return {};
+    }
+    console.error('Failed to load rate limit configuration:', error);
+    throw error;
+  }
+}
+
+/**
+ * 调用方标识：虚拟 Key 使用其 ID，其他 Key 使用哈希（不在内存中保存明文）
+ */
+export function rateLimitCaller(apiKey?: string, virtualKeyId?: string): string {
+  if (virtualKeyId) {
+    return virtualKeyId;
+  }
+  if (!apiKey) {
+    return 'anonymous';
+  }
+  return `key_${createHash('sha256').update(apiKey).digest('hex').slice(0, 16)}`;
+}
+
+function getScopes({ caller, provider, model }: RateLimitTarget): Array<{ scope: string; limit: RateLimit }> {
+  const scopes: Array<{ scope: string; limit: RateLimit | undefined }> = [
+    { scope: `key:${caller}`, limit: rateLimitConfig.keys?.[caller] ?? rateLimitConfig.keys?.default },
+    { scope: `provider:${provider}`, limit: rateLimitConfig.providers?.[provider] },
+    { scope: `model:${provider}/${model}`, limit: rateLimitConfig.models?.[`${provider}/${model}`] }
+  ];
+  return scopes.filter((item): item is { scope: string; limit: RateLimit } => !!item.limit);
+}
+
+// 窗口为空时删除该范围，避免每个出现过的 Key 都常驻内存
+function getWindow(scope: string, now: number): WindowEvent[] {
+  const events = (windows.get(scope) || []).filter(event => now - event.time < RATE_LIMIT_WINDOW_MS);
+  if (events.length > 0) {
+    windows.set(scope, events);
+  } else {
+    windows.delete(scope);
+  }
+  return events;
+}
+
+function addEvent(scope: string, event: WindowEvent) {
+  const events = windows.get(scope);
+  if (events) {
+    events.push(event);
+  } else {
+    windows.set(scope, [event]);
+  }
+}
+
+/**
+ * 不再有请求的范围（如只出现过一次的无效 Key）不会再被 getWindow 访问，每个窗口周期清理一次
+ */
+function sweepWindows(now: number) {
+  if (now - lastSweep < RATE_LIMIT_WINDOW_MS) {
+    return;
+  }
+  lastSweep = now;
+  for (const scope of windows.keys()) {
+    getWindow(scope, now);
+  }
+}
+
+/**
+ * 计算需要等待多久，窗口内的 field 总量才会低于 max
+ */
+function waitUntilBelow(events: WindowEvent[], field: 'requests' | 'tokens', max: number, now: number): number | null {
+  let total = events.reduce((sum, event) => sum + event[field], 0);
+  if (total < max) {
+    return null;
+  }
+  for (const event of events) {
+    total -= event[field];
+    if (total < max) {
+      return Math.max(1, Math.ceil((event.time + RATE_LIMIT_WINDOW_MS - now) / 1000));
+    }
+  }
+  return Math.ceil(RATE_LIMIT_WINDOW_MS / 1000);
+}
+
+/**
+ * 检查所有适用的限流规则。未超限时计入本次请求并返回 null，
+ * 超限时不计入，返回触发限流的规则和重试时间。
+ */
+export function acquireRateLimit(target: RateLimitTarget): RateLimitRejection | null {
+  const now = Date.now();
+  sweepWindows(now);
+  const scopes = getScopes(target);
+
+  for (const { scope, limit } of scopes) {
+    const events = getWindow(scope, now);
+    if (limit.rpm !== undefined) {
+      const retryAfter = waitUntilBelow(events, 'requests', limit.rpm, now);
+      if (retryAfter !== null) {
+        return { scope, limit: 'rpm', retryAfter };
+      }
+    }
+    if (limit.tpm !== undefined) {
+      const retryAfter = waitUntilBelow(events, 'tokens', limit.tpm, now);
+      if (retryAfter !== null) {
+        return { scope, limit: 'tpm', retryAfter };
+      }
+    }
+  }
+
+  for (const { scope } of scopes) {
+    addEvent(scope, { time: now, requests: 1, tokens: 0 });
+  }
+  return null;
+}
+
+/** 请求结束后计入实际使用的 token（流式请求也在结束时计入） */
+export function recordRateLimitTokens(target: RateLimitTarget, tokens: number) {
+  if (tokens <= 0) {
+    return;
+  }
+  const now = Date.now();
+  for (const { scope } of getScopes(target)) {
+    addEvent(scope, { time: now, requests: 0, tokens });
+  }
+}
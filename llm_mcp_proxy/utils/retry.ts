@@ -0,0 +1,97 @@
+/** 上游调用失败后的最大重试次数，可通过 PROXY_MAX_RETRIES 覆盖 */
+export const DEFAULT_MAX_RETRIES = 2;
+/** 重试退避的初始/最大间隔 */
+export const RETRY_BASE_DELAY_MS = 500;
+export const RETRY_MAX_DELAY_MS = 8 * 1000;
+
+const RETRYABLE_ERROR_CODES = new Set([
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ETIMEDOUT',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'EPIPE',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT'
+]);
+
+function getMaxRetries(): number {
+  const value = Number(process.env.PROXY_MAX_RETRIES);
+  return Number.isInteger(value) && value >= 0 ? value : DEFAULT_MAX_RETRIES;
+}
+
+// 各 SDK 的错误格式不同：OpenAI/Anthropic 使用 status，Ollama 使用 status_code
+function getStatus(error: any): number | undefined {
+  return error?.status ?? error?.status_code ?? error?.response?.status;
+}
+
+/**
+ * 429、5xx 和网络错误可以重试（也可以切换到备用模型）
+ */
+export function isRetryableError(error: any): boolean {
+  if (!error || error.name === 'AbortError') {
+    return false;
+  }
+  const status = getStatus(error);
+  if (status !== undefined) {
+    return status === 429 || status >= 500;
+  }
+  const code = error.code ?? error.cause?.code;
+  if (code && RETRYABLE_ERROR_CODES.has(code)) {
+    return true;
+  }
+  // fetch 的网络错误，以及 OpenAI/Anthropic SDK 的连接错误（SDK 错误的 name 均为 Error，按类名判断）
+  const className = error.constructor?.name;
+  return className === 'APIConnectionError'
+    || className === 'APIConnectionTimeoutError'
+    || (error instanceof TypeError && error.message === 'fetch failed');
+}
+
+// 优先使用上游返回的 Retry-After（秒）
+function getRetryDelay(error: any, attempt: number): number {
+  const headers = error?.headers;
+  const retryAfter = typeof headers?.get === 'function' ? headers.get('retry-after') : headers?.['retry-after'];
+  const seconds = Number(retryAfter);
+  if (retryAfter !== undefined && retryAfter !== null && Number.isFinite(seconds) && seconds >= 0) {
+    return Math.min(seconds * 1000, RETRY_MAX_DELAY_MS);
+  }
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** attempt, RETRY_MAX_DELAY_MS);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * 调用上游接口，遇到可重试的错误时按指数退避重试。
+ * 流式请求只包住建立连接的调用，已开始输出的流不会重试。
+ */
+export async function withRetry<T>(label: string, fn: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+  const maxRetries = getMaxRetries();
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error: any) {
+      if (attempt >= maxRetries || signal?.aborted || !isRetryableError(error)) {
+        throw error;
+      }
+      const delay = getRetryDelay(error, attempt);
+      console.warn(`${label} failed (${error.message}), retrying in ${delay}ms (attempt ${attempt + 1}/${maxRetries})`);
+      await sleep(delay, signal);
+    }
+  }
+}
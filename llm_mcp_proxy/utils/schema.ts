@@ -0,0 +1,61 @@
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+import addFormats from 'ajv-formats';
+
+export interface SchemaValidationError {
+  /** 出错的字段路径，如 "path" 或 "options.limit"；根对象为空字符串 */
+  field: string;
+  message: string;
+}
+
+// MCP 服务器给出的 schema 来源多样，关闭 strict 以容忍未知关键字
+const ajv = new Ajv({ allErrors: true, strict: false });
+addFormats(ajv);
+
+// 按 schema 内容缓存编译结果，避免每次调用都重新编译
+const validators: Map<string, ValidateFunction> = new Map();
+
+function getValidator(schema: Record<string, any>): ValidateFunction | null {
+  const key = JSON.stringify(schema);
+  let validate = validators.get(key);
+  if (!validate) {
+    try {
+      validate = ajv.compile(schema);
+    } catch (error) {
+      console.warn('Skipping validation for invalid JSON schema:', error);
+      return null;
+    }
+    validators.set(key, validate);
+  }
+  return validate;
+}
+
+function toFieldPath(error: ErrorObject): string {
+  const segments = error.instancePath.split('/').filter(Boolean).map(segment =>
+    segment.replace(/~1/g, '/').replace(/~0/g, '~')
+  );
+  if (error.keyword === 'required') {
+    segments.push(error.params.missingProperty);
+  } else if (error.keyword === 'additionalProperties') {
+    segments.push(error.params.additionalProperty);
+  }
+  return segments.join('.');
+}
+
+/**
+ * 按 JSON Schema 校验数据，返回字段级错误；校验通过时返回空数组。
+ * schema 本身无法编译时不做校验，交给 MCP 服务器处理。
+ */
+export function validateAgainstSchema(schema: Record<string, any>, value: unknown): SchemaValidationError[] {
+  const validate = getValidator(schema);
+  if (!validate || validate(value)) {
+    return [];
+  }
+  return (validate.errors || []).map(error => ({
+    field: toFieldPath(error),
+    message: error.message || 'is invalid'
+  }));
+}
+
+export function formatSchemaErrors(errors: SchemaValidationError[]): string {
+  return errors.map(error => error.field ? `${error.field}: ${error.message}` : error.message).join('; ');
+}
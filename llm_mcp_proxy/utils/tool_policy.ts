@@ -0,0 +1,66 @@
+/**
+ * 工具白名单/黑名单，支持 * 和 ? 通配符。
+ * 可以写在请求体中，也可以写在 mcp_servers.json 的服务器配置中。
+ */
+export interface ToolPolicy {
+  /** 只开放匹配的工具；未设置时开放全部 */
+  allowedTools?: string[];
+  /** 屏蔽匹配的工具，优先级高于 allowedTools */
+  deniedTools?: string[];
+}
+
+// 按 pattern 缓存编译后的正则
+const patternCache: Map<string, RegExp> = new Map();
+
+function globToRegExp(pattern: string): RegExp {
+  let regex = patternCache.get(pattern);
+  if (!regex) {
+    const source = pattern
+      .split('')
+      .map(char => {
+        if (char === '*') return '.*';
+        if (char === '?') return '.';
+        return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+      })
+      .join('');
+    regex = new RegExp(`^${source}$`);
+    patternCache.set(pattern, regex);
+  }
+  return regex;
+}
+
+export function matchesGlob(pattern: string, name: string): boolean {
+  return globToRegExp(pattern).test(name);
+}
+
+/**
+ * 判断工具是否被策略允许。
+ * names 为工具的所有可用名称（原始名称、带服务器前缀的名称），任意一个匹配即视为匹配。
+ */
+export function isToolAllowed(names: string[], policy?: ToolPolicy): boolean {
+  if (!policy) {
+    return true;
+  }
+  const matches = (patterns: string[]) =>
+    patterns.some(pattern => names.some(name => matchesGlob(pattern, name)));
+
+  if (policy.deniedTools && matches(policy.deniedTools)) {
+    return false;
+  }
+  if (policy.allowedTools && !matches(policy.allowedTools)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * 校验策略字段，格式错误时抛出错误
+ */
+export function validateToolPolicy(policy: ToolPolicy, label: string) {
+  for (const key of ['allowedTools', 'deniedTools'] as const) {
+    const patterns = policy[key];
+    if (patterns !== undefined && (!Array.isArray(patterns) || patterns.some(p => typeof p !== 'string'))) {
+      throw new Error(`${label} has invalid "${key}", expected an array of strings`);
+    }
+  }
+}
@@ -0,0 +1,225 @@
+import modelsMeta from '../models_meta.json';
+import type { ModelMeta } from '../types';
+import type { ChatParams } from '../providers/types';
+import { chargeVirtualKey } from './virtual_keys';
+import { rateLimitCaller, recordRateLimitTokens } from './rate_limit';
+
+/** 与 LLM 无关的 token 统计 */
+export interface TokenUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  /** 命中提示缓存的输入 token，已包含在 prompt_tokens 中 */
+  cached_tokens: number;
+  /** 写入提示缓存的输入 token（Anthropic），已包含在 prompt_tokens 中 */
+  cache_creation_tokens: number;
+}
+
+export interface Usage extends TokenUsage {
+  total_tokens: number;
+  /** 按 models_meta.json 计算的费用（美元），模型没有价格信息时为 null */
+  cost: number | null;
+}
+
+export interface UsageTotals extends TokenUsage {
+  total_tokens: number;
+  cost: number;
+  requests: number;
+}
+
+type ModelMetaWithCache = ModelMeta & { input_cost_per_token_cache_hit?: number };
+
+const allModelsMeta = modelsMeta as unknown as Record<string, ModelMetaWithCache[]>;
+
+/**
+ * 查找模型价格信息。models_meta.json 中部分模型带有 provider 前缀（如 deepseek/deepseek-chat）
+ */
+export function findModelMeta(provider: string, model: string): ModelMetaWithCache | undefined {
+  const models = allModelsMeta[provider] || [];
+  return models.find(meta => meta.model_id === model || meta.model_id === `${provider}/${model}`);
+}
+
+export function computeCost(provider: string, model: string, tokens: TokenUsage): number | null {
+  const meta = findModelMeta(provider, model);
+  if (!meta) {
+    return null;
+  }
+  const cachedRate = meta.cache_read_input_token_cost ?? meta.input_cost_per_token_cache_hit ?? meta.input_cost_per_token;
+  const cacheCreationRate = meta.cache_creation_input_token_cost ?? meta.input_cost_per_token;
+  return (tokens.prompt_tokens - tokens.cached_tokens - tokens.cache_creation_tokens) * meta.input_cost_per_token
+    + tokens.cached_tokens * cachedRate
+    + tokens.cache_creation_tokens * cacheCreationRate
+    + tokens.completion_tokens * meta.output_cost_per_token;
+}
+
+/** OpenAI 兼容接口（OpenAI、DeepSeek）的 usage */
+export function fromOpenAIUsage(usage: any): TokenUsage | null {
+  if (!usage) {
+    return null;
+  }
+  return {
+    prompt_tokens: usage.prompt_tokens || 0,
+    completion_tokens: usage.completion_tokens || 0,
+    // DeepSeek 使用 prompt_cache_hit_tokens
+    cached_tokens: usage.prompt_tokens_details?.cached_tokens ?? usage.prompt_cache_hit_tokens ?? 0,
+    cache_creation_tokens: 0
+  };
+}
+
+/** Anthropic 的 input_tokens 不含缓存部分，这里统一计入 prompt_tokens */
+export function fromAnthropicUsage(usage: any): TokenUsage | null {
+  if (!usage) {
+    return null;
+  }
+  const cacheRead = usage.cache_read_input_tokens || 0;
+  const cacheCreation = usage.cache_creation_input_tokens || 0;
+  return {
+    prompt_tokens: (usage.input_tokens || 0) + cacheRead + cacheCreation,
+    completion_tokens: usage.output_tokens || 0,
+    cached_tokens: cacheRead,
+    cache_creation_tokens: cacheCreation
+  };
+}
+
+/** Ollama 在最后一个响应中返回 prompt_eval_count / eval_count */
+export function fromOllamaResponse(response: any): TokenUsage | null {
+  if (!response || (response.prompt_eval_count === undefined && response.eval_count === undefined)) {
+    return null;
+  }
+  return {
+    prompt_tokens: response.prompt_eval_count || 0,
+    completion_tokens: response.eval_count || 0,
+    cached_tokens: 0,
+    cache_creation_tokens: 0
+  };
+}
+
+function emptyTotals(): UsageTotals {
+  return { prompt_tokens: 0, completion_tokens: 0, cached_tokens: 0, cache_creation_tokens: 0, total_tokens: 0, cost: 0, requests: 0 };
+}
+
+// 按 provider / 模型 / API Key 汇总的用量，进程重启后清零
+const usageTotals = {
+  since: new Date().toISOString(),
+  total: emptyTotals(),
+  byProvider: new Map<string, UsageTotals>(),
+  byModel: new Map<string, UsageTotals>(),
+  byApiKey: new Map<string, UsageTotals>()
+};
+
+/** 合并两次响应的用量（如结构化输出重新请求时），任一费用未知时为 null */
+export function addUsage(a: Usage, b: Usage): Usage {
+  return {
+    prompt_tokens: a.prompt_tokens + b.prompt_tokens,
+    completion_tokens: a.completion_tokens + b.completion_tokens,
+    cached_tokens: a.cached_tokens + b.cached_tokens,
+    cache_creation_tokens: a.cache_creation_tokens + b.cache_creation_tokens,
+    total_tokens: a.total_tokens + b.total_tokens,
+    cost: a.cost === null || b.cost === null ? null : a.cost + b.cost
+  };
+}
+
+// 不保存完整的 API Key
+export function maskApiKey(apiKey?: string): string {
+  if (!apiKey) {
+    return 'anonymous';
+  }
+  if (apiKey.length <= 8) {
+    return '***';
+  }
+  return `${apiKey.slice(0, 3)}...${apiKey.slice(-4)}`;
+}
+
+function totalsFor(map: Map<string, UsageTotals>, key: string): UsageTotals {
+  let totals = map.get(key);
+  if (!totals) {
+    totals = emptyTotals();
+    map.set(key, totals);
+  }
+  return totals;
+}
+
+function addTotals(totals: UsageTotals, usage: Usage) {
+  totals.prompt_tokens += usage.prompt_tokens;
+  totals.completion_tokens += usage.completion_tokens;
+  totals.cached_tokens += usage.cached_tokens;
+  totals.cache_creation_tokens += usage.cache_creation_tokens;
+  totals.total_tokens += usage.total_tokens;
+  totals.cost += usage.cost || 0;
+  totals.requests++;
+}
+
+/** keyLabel 为虚拟 Key 的 ID 或脱敏后的厂商 Key */
+export function recordUsage(provider: string, model: string, keyLabel: string, usage: Usage) {
+  addTotals(usageTotals.total, usage);
+  addTotals(totalsFor(usageTotals.byProvider, provider), usage);
+  addTotals(totalsFor(usageTotals.byModel, `${provider}/${model}`), usage);
+  addTotals(totalsFor(usageTotals.byApiKey, keyLabel), usage);
+}
+
+export function getUsageSummary() {
+  return {
+    since: usageTotals.since,
+    total: usageTotals.total,
+    by_provider: Object.fromEntries(usageTotals.byProvider),
+    by_model: Object.fromEntries(usageTotals.byModel),
+    by_api_key: Object.fromEntries(usageTotals.byApiKey)
+  };
+}
+
+/**
+ * 累加一次对话（包括工具循环中的多次模型调用）的 token 用量，
+ * 结束时计算费用并计入汇总。
+ */
+export class UsageTracker {
+  private tokens: TokenUsage = { prompt_tokens: 0, completion_tokens: 0, cached_tokens: 0, cache_creation_tokens: 0 };
+  private recorded = false;
+
+  private model: string;
+  private apiKey?: string;
+  private virtualKeyId?: string;
+
+  constructor(private provider: string, params: Pick<ChatParams, 'model' | 'apiKey' | 'virtualKeyId'>) {
+    this.model = params.model;
+    this.apiKey = params.apiKey;
+    this.virtualKeyId = params.virtualKeyId;
+  }
+
+  add(tokens: TokenUsage | null) {
+    if (!tokens) {
+      return;
+    }
+    this.tokens.prompt_tokens += tokens.prompt_tokens;
+    this.tokens.completion_tokens += tokens.completion_tokens;
+    this.tokens.cached_tokens += tokens.cached_tokens;
+    this.tokens.cache_creation_tokens += tokens.cache_creation_tokens;
+  }
+
+  get usage(): Usage {
+    return {
+      ...this.tokens,
+      total_tokens: this.tokens.prompt_tokens + this.tokens.completion_tokens,
+      cost: computeCost(this.provider, this.model, this.tokens)
+    };
+  }
+
+  /** 计入汇总并返回最终用量，重复调用只计一次 */
+  finish(): Usage {
+    const usage = this.usage;
+    if (!this.recorded) {
+      this.recorded = true;
+      recordUsage(this.provider, this.model, this.virtualKeyId || maskApiKey(this.apiKey), usage);
+      // 有预算的虚拟 Key 不能使用没有价格的模型（见 resolveApiKey），这里只会跳过没有预算的 Key
+      if (this.virtualKeyId && usage.cost !== null) {
+        chargeVirtualKey(this.virtualKeyId, usage.cost);
+      } else if (this.virtualKeyId) {
+        console.warn(`Not charging virtual key ${this.virtualKeyId}: no price for ${this.provider}/${this.model}`);
+      }
+      recordRateLimitTokens({
+        caller: rateLimitCaller(this.apiKey, this.virtualKeyId),
+        provider: this.provider,
+        model: this.model
+      }, usage.total_tokens);
+    }
+    return usage;
+  }
+}
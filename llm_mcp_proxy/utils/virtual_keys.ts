@@ -0,0 +1,278 @@
+import fs from 'fs';
+import path from 'path';
+import { createHash, randomBytes } from 'crypto';
+import { matchesGlob } from './tool_policy';
+import { rateLimitCaller } from './rate_limit';
+import { findModelMeta } from './usage';
+
+/** 代理签发的虚拟 Key 前缀，用于和厂商的真实 Key 区分 */
+export const VIRTUAL_KEY_PREFIX = 'sk-proxy-';
+
+/** 服务端保存的厂商 Key，从环境变量读取 */
+const PROVIDER_KEY_ENV: Record<string, string> = {
+  openai: 'OPENAI_API_KEY',
+  anthropic: 'ANTHROPIC_API_KEY',
+  deepseek: 'DEEPSEEK_API_KEY'
+};
+
+export interface VirtualKeyLimits {
+  /** 允许使用的 provider，未设置时不限制 */
+  providers?: string[];
+  /** 允许使用的模型，支持 * 和 ? 通配符 */
+  models?: string[];
+  /** 允许使用的 MCP 服务器 */
+  mcpServers?: string[];
+  /** 预算（美元），按 models_meta.json 的价格累计扣减 */
+  budget?: number;
+}
+
+export interface VirtualKey extends VirtualKeyLimits {
+  id: string;
+  name?: string;
+  /** 只保存 Key 的 SHA-256，明文只在创建时返回一次 */
+  keyHash: string;
+  spent: number;
+  createdAt: string;
+}
+
+export type VirtualKeyInfo = Omit<VirtualKey, 'keyHash'>;
+
+export type VirtualKeyUpdate = VirtualKeyLimits & { name?: string; spent?: number };
+
+/** Key 校验失败，statusCode/title 直接用于返回给客户端的错误响应 */
+export class KeyResolutionError extends Error {
+  constructor(public statusCode: number, public title: string, message: string) {
+    super(message);
+    this.name = 'KeyResolutionError';
+  }
+}
+
+interface VirtualKeyStore {
+  keys: VirtualKey[];
+}
+
+let store: VirtualKeyStore | null = null;
+// 串行写文件，避免并发写入同一个临时文件
+let saving: Promise<void> = Promise.resolve();
+
+// 与 mcp_servers.json 一样位于项目根目录
+export function getVirtualKeysPath(): string {
+  return path.join(process.cwd(), 'virtual_keys.json');
+}
+
+function hashKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+function toInfo({ keyHash, ...info }: VirtualKey): VirtualKeyInfo {
+  return info;
+}
+
+async function loadStore(): Promise<VirtualKeyStore> {
+  if (store) {
+    return store;
+  }
+  try {
+    const content = await fs.promises.readFile(getVirtualKeysPath(), 'utf-8');
+    store = JSON.parse(content) as VirtualKeyStore;
+    store.keys = store.keys || [];
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') {
+      console.error('Failed to load virtual keys:', error);
+      throw error;
+    }
+    store = { keys: [] };
+  }
+  return store;
+}
+
+function saveStore(): Promise<void> {
+  saving = saving.then(async () => {
+    const filePath = getVirtualKeysPath();
+    const tmpPath = `${filePath}.tmp`;
+    await fs.promises.writeFile(tmpPath, JSON.stringify(store, null, 2) + '\n', 'utf-8');
+    await fs.promises.rename(tmpPath, filePath);
+  }).catch(error => {
+    console.error('Failed to save virtual keys:', error);
+  });
+  return saving;
+}
+
+export function isVirtualKey(token: string): boolean {
+  return token.startsWith(VIRTUAL_KEY_PREFIX);
+}
+
+/**
+ * 校验虚拟 Key 的限制字段，格式错误时抛出错误
+ */
+export function validateVirtualKeyUpdate(update: VirtualKeyUpdate) {
+  for (const field of ['providers', 'models', 'mcpServers'] as const) {
+    const value = update[field];
+    if (value !== undefined && (!Array.isArray(value) || value.some(item => typeof item !== 'string'))) {
+      throw new Error(`"${field}" must be an array of strings`);
+    }
+  }
+  for (const field of ['budget', 'spent'] as const) {
+    const value = update[field];
+    if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+      throw new Error(`"${field}" must be a non-negative number`);
+    }
+  }
+  if (update.name !== undefined && typeof update.name !== 'string') {
+    throw new Error('"name" must be a string');
+  }
+}
+
+function pickUpdate(update: VirtualKeyUpdate): VirtualKeyUpdate {
+  const { name, providers, models, mcpServers, budget, spent } = update;
+  return Object.fromEntries(
+    Object.entries({ name, providers, models, mcpServers, budget, spent }).filter(([, value]) => value !== undefined)
+  );
+}
+
+/**
+ * 签发新的虚拟 Key，返回明文 Key（只此一次）和 Key 信息
+ */
+export async function createVirtualKey(params: VirtualKeyUpdate): Promise<{ key: string; virtualKey: VirtualKeyInfo }> {
+  validateVirtualKeyUpdate(params);
+  const keys = await loadStore();
+
+  const key = `${VIRTUAL_KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+  const virtualKey: VirtualKey = {
+    spent: 0,
+    ...pickUpdate(params),
+    id: `vk_${randomBytes(6).toString('hex')}`,
+    keyHash: hashKey(key),
+    createdAt: new Date().toISOString()
+  };
+  keys.keys.push(virtualKey);
+  await saveStore();
+
+  console.log(`Created virtual key "${virtualKey.id}"`);
+  return { key, virtualKey: toInfo(virtualKey) };
+}
+
+export async function listVirtualKeys(): Promise<VirtualKeyInfo[]> {
+  const keys = await loadStore();
+  return keys.keys.map(toInfo);
+}
+
+export async function getVirtualKey(id: string): Promise<VirtualKeyInfo | null> {
+  const keys = await loadStore();
+  const virtualKey = keys.keys.find(item => item.id === id);
+  return virtualKey ? toInfo(virtualKey) : null;
+}
+
+/** 修改限制或重置已用额度，Key 不存在时返回 null */
+export async function updateVirtualKey(id: string, update: VirtualKeyUpdate): Promise<VirtualKeyInfo | null> {
+  validateVirtualKeyUpdate(update);
+  const keys = await loadStore();
+  const virtualKey = keys.keys.find(item => item.id === id);
+  if (!virtualKey) {
+    return null;
+  }
+  Object.assign(virtualKey, pickUpdate(update));
+  await saveStore();
+  return toInfo(virtualKey);
+}
+
+export async function deleteVirtualKey(id: string): Promise<boolean> {
+  const keys = await loadStore();
+  const index = keys.keys.findIndex(item => item.id === id);
+  if (index === -1) {
+    return false;
+  }
+  keys.keys.splice(index, 1);
+  await saveStore();
+  console.log(`Deleted virtual key "${id}"`);
+  return true;
+}
+
+/** 累加虚拟 Key 的花费 */
+export async function chargeVirtualKey(id: string, cost: number) {
+  const keys = await loadStore();
+  const virtualKey = keys.keys.find(item => item.id === id);
+  if (!virtualKey || cost <= 0) {
+    return;
+  }
+  virtualKey.spent += cost;
+  await saveStore();
+}
+
+export function getProviderApiKey(provider: string): string | undefined {
+  const envName = PROVIDER_KEY_ENV[provider];
+  return envName ? process.env[envName] : undefined;
+}
+
+/**
+ * 调用方标识：虚拟 Key 为其 ID，其他 Key 为哈希（与限流相同），没有 Key 时为 anonymous。
+ * 无效的虚拟 Key 抛出 KeyResolutionError
+ */
+export async function identifyCaller(token: string | undefined): Promise<string> {
+  if (token && isVirtualKey(token)) {
+    const keys = await loadStore();
+    const virtualKey = keys.keys.find(item => item.keyHash === hashKey(token));
+    if (!virtualKey) {
+      throw new KeyResolutionError(401, 'Authentication failed', 'Invalid API Key.');
+    }
+    return virtualKey.id;
+  }
+  return rateLimitCaller(token);
+}
+
+/**
+ * 把请求携带的 Key 解析为上游厂商的 Key。
+ * 虚拟 Key 会检查 provider、模型、MCP 服务器和预算限制，然后换成服务端保存的厂商 Key；
+ * 其他 Key 原样转发（PROXY_VIRTUAL_KEYS_ONLY=true 时拒绝）。
+ */
+export async function resolveApiKey(
+  token: string | undefined,
+  { provider, model, mcpServerNames = [] }: { provider: string; model?: string; mcpServerNames?: string[] }
+): Promise<{ apiKey?: string; virtualKey?: VirtualKey }> {
+  if (!token) {
+    if (provider === 'ollama') {
+      return {};
+    }
+    throw new KeyResolutionError(401, 'Authentication failed', 'Missing API Key. Please provide your API key in the Authorization header with Bearer scheme.');
+  }
+
+  if (!isVirtualKey(token)) {
+    if (process.env.PROXY_VIRTUAL_KEYS_ONLY === 'true') {
+      throw new KeyResolutionError(401, 'Authentication failed', 'Only API keys issued by the proxy are accepted.');
+    }
+    return { apiKey: token };
+  }
+
+  const keys = await loadStore();
+  const tokenHash = hashKey(token);
+  const virtualKey = keys.keys.find(item => item.keyHash === tokenHash);
+  if (!virtualKey) {
+    throw new KeyResolutionError(401, 'Authentication failed', 'Invalid API Key.');
+  }
+
+  if (virtualKey.providers && !virtualKey.providers.includes(provider)) {
+    throw new KeyResolutionError(403, 'Forbidden', `API key is not allowed to use provider "${provider}"`);
+  }
+  if (model && virtualKey.models && !virtualKey.models.some(pattern => matchesGlob(pattern, model))) {
+    throw new KeyResolutionError(403, 'Forbidden', `API key is not allowed to use model "${model}"`);
+  }
+  const deniedServers = virtualKey.mcpServers
+    ? mcpServerNames.filter(name => !virtualKey.mcpServers!.includes(name))
+    : [];
+  if (deniedServers.length > 0) {
+    throw new KeyResolutionError(403, 'Forbidden', `API key is not allowed to use MCP servers: ${deniedServers.join(', ')}`);
+  }
+  if (virtualKey.budget !== undefined && virtualKey.spent >= virtualKey.budget) {
+    throw new KeyResolutionError(402, 'Budget exceeded', `API key has used its budget of $${virtualKey.budget}`);
+  }
+  // 没有价格的模型无法计费，有预算的 Key 不能使用
+  if (model && virtualKey.budget !== undefined && !findModelMeta(provider, model)) {
+    throw new KeyResolutionError(403, 'Forbidden', `Model "${model}" has no price in models_meta.json, so API keys with a budget cannot use it`);
+  }
+
+  const apiKey = getProviderApiKey(provider);
+  if (!apiKey && provider !== 'ollama') {
+    throw new KeyResolutionError(500, 'Provider key not configured', `No API key configured on the proxy for provider "${provider}"`);
+  }
+  return { apiKey, virtualKey };
+}
@@ -168,6 +168,131 @@ test_chat_api() {
             \"messages\": [{\"role\": \"user\", \"content\": \"$test_prompt\"}]
         }"
     echo
+
+    info "Testing Anthropic chat with system message"
+    curl -s -X POST http://localhost:3000/v1/chat/completions \
+        -H "Content-Type: application/json" \
+        -H "Authorization: Bearer $ANTHROPIC_API_KEY" \
+        -d "{
+            \"provider\": \"anthropic\",
+            \"model\": \"claude-3-haiku-20240307\",
+            \"messages\": [
+                {\"role\": \"system\", \"content\": \"请只用英文回答\"},
+                {\"role\": \"user\", \"content\": \"$test_prompt\"}
+            ]
+        }"
+    echo
+
+    info "Testing Anthropic chat with generation parameters"
+    curl -s -X POST http://localhost:3000/v1/chat/completions \
+        -H "Content-Type: application/json" \
+        -H "Authorization: Bearer $ANTHROPIC_API_KEY" \
+        -d "{
+            \"provider\": \"anthropic\",
+            \"model\": \"claude-3-haiku-20240307\",
+            \"messages\": [{\"role\": \"user\", \"content\": \"$test_prompt\"}],
+            \"temperature\": 0.2,
+            \"max_tokens\": 100,
+            \"stop\": [\"。\"]
+        }"
+    echo
+
+    info "Testing chat with unsupported parameter"
+    curl -s -X POST http://localhost:3000/v1/chat/completions \
+        -H "Content-Type: application/json" \
+        -H "Authorization: Bearer $ANTHROPIC_API_KEY" \
+        -d "{
+            \"provider\": \"anthropic\",
+            \"model\": \"claude-3-haiku-20240307\",
+            \"messages\": [{\"role\": \"user\", \"content\": \"$test_prompt\"}],
+            \"seed\": 42
+        }"
+    echo
+
+    info "Testing Anthropic chat with JSON schema output"
+    curl -s -X POST http://localhost:3000/v1/chat/completions \
+        -H "Content-Type: application/json" \
+        -H "Authorization: Bearer $ANTHROPIC_API_KEY" \
+        -d "{
+            \"provider\": \"anthropic\",
+            \"model\": \"claude-3-haiku-20240307\",
+            \"messages\": [{\"role\": \"user\", \"content\": \"北京今天的天气怎么样？\"}],
+            \"response_format\": {
+                \"type\": \"json_schema\",
+                \"json_schema\": {
+                    \"name\": \"weather\",
+                    \"schema\": {
+                        \"type\": \"object\",
+                        \"properties\": {
+                            \"city\": {\"type\": \"string\"},
+                            \"summary\": {\"type\": \"string\"}
+                        },
+                        \"required\": [\"city\", \"summary\"]
+                    }
+                }
+            },
+            \"responseFormatRetries\": 1
+        }"
+    echo
+
+    info "Testing Ollama chat with JSON object output"
+    curl -s -X POST http://localhost:3000/v1/chat/completions \
+        -H "Content-Type: application/json" \
+        -d "{
+            \"provider\": \"ollama\",
+            \"model\": \"llama2\",
+            \"messages\": [{\"role\": \"user\", \"content\": \"用 JSON 给出三种水果的名字\"}],
+            \"response_format\": {\"type\": \"json_object\"}
+        }"
+    echo
+
+    info "Testing Ollama chat with raw provider response"
+    curl -s -X POST http://localhost:3000/v1/chat/completions \
+        -H "Content-Type: application/json" \
+        -d "{
+            \"provider\": \"ollama\",
+            \"model\": \"llama2\",
+            \"messages\": [{\"role\": \"user\", \"content\": \"$test_prompt\"}],
+            \"includeRaw\": true
+        }"
+    echo
+
+    info "Testing OpenAI chat with tool policy"
+    curl -s -X POST http://localhost:3000/v1/chat/completions \
+        -H "Content-Type: application/json" \
+        -H "Authorization: Bearer $OPENAI_API_KEY" \
+        -d "{
+            \"provider\": \"openai\",
+            \"model\": \"gpt-3.5-turbo\",
+            \"messages\": [{\"role\": \"user\", \"content\": \"列出 /tmp 目录下的 epub 文件\"}],
+            \"isYolo\": true,
+            \"mcpServerNames\": [\"ebook-mcp\"],
+            \"allowedTools\": [\"get_*\"],
+            \"deniedTools\": [\"*delete*\"]
+        }"
+    echo
+
+    info "Testing chat with invalid tool policy"
+    curl -s -X POST http://localhost:3000/v1/chat/completions \
+        -H "Content-Type: application/json" \
+        -d "{
+            \"provider\": \"ollama\",
+            \"model\": \"llama2\",
+            \"messages\": [{\"role\": \"user\", \"content\": \"$test_prompt\"}],
+            \"allowedTools\": \"get_*\"
+        }"
+    echo
+
+    info "Testing chat with invalid mcpServerNames"
+    curl -s -X POST http://localhost:3000/v1/chat/completions \
+        -H "Content-Type: application/json" \
+        -d "{
+            \"provider\": \"ollama\",
+            \"model\": \"llama2\",
+            \"messages\": [{\"role\": \"user\", \"content\": \"$test_prompt\"}],
+            \"mcpServerNames\": \"ebook-mcp\"
+        }"
+    echo
 }
 
 # 测试流式聊天 API
@@ -230,12 +355,296 @@ test_mcp_tools_api() {
 
     info "Getting ebook-mcp tools"
     curl -s -X GET "http://localhost:3000/v1/mcp/ebook-mcp/tools" \
-        -H "Content-Type: application/json"
+        -H "Content-Type: application/json" \
+        -H "Authorization: Bearer $PROXY_ADMIN_TOKEN"
     echo
 
     info "Testing non-existent MCP server"
     curl -s -X GET "http://localhost:3000/v1/mcp/nonexistent/tools" \
-        -H "Content-Type: application/json"
+        -H "Content-Type: application/json" \
+        -H "Authorization: Bearer $PROXY_ADMIN_TOKEN"
+    echo
+
+    info "Listing tools without admin token (should be rejected when PROXY_ADMIN_TOKEN is set)"
+    curl -s -X GET "http://localhost:3000/v1/mcp/ebook-mcp/tools"
+    echo
+}
+
+# 测试 MCP Resources / Prompts API
+test_mcp_resources_prompts_api() {
+    info "Testing MCP Resources and Prompts API..."
+
+    info "Getting ebook-mcp resources"
+    curl -s "http://localhost:3000/v1/mcp/ebook-mcp/resources" \
+        -H "Authorization: Bearer $PROXY_ADMIN_TOKEN"
+    echo
+
+    info "Reading resource without uri"
+    curl -s "http://localhost:3000/v1/mcp/ebook-mcp/resources/read" \
+        -H "Authorization: Bearer $PROXY_ADMIN_TOKEN"
+    echo
+
+    info "Getting ebook-mcp prompts"
+    curl -s "http://localhost:3000/v1/mcp/ebook-mcp/prompts" \
+        -H "Authorization: Bearer $PROXY_ADMIN_TOKEN"
+    echo
+
+    info "Getting prompt from non-existent MCP server"
+    curl -s -X POST "http://localhost:3000/v1/mcp/nonexistent/prompts/example" \
+        -H "Content-Type: application/json" \
+        -H "Authorization: Bearer $PROXY_ADMIN_TOKEN" \
+        -d '{"arguments": {}}'
+    echo
+}
+
+# 测试直接调用 MCP 工具
+test_mcp_tool_call_api() {
+    info "Testing direct MCP tool call API..."
+
+    info "Calling ebook-mcp get_all_epub_files"
+    curl -s -X POST "http://localhost:3000/v1/mcp/ebook-mcp/tools/get_all_epub_files/call" \
+        -H "Content-Type: application/json" \
+        -H "Authorization: Bearer $PROXY_ADMIN_TOKEN" \
+        -d '{"path": "/tmp"}'
+    echo
+
+    info "Calling tool with invalid arguments"
+    curl -s -X POST "http://localhost:3000/v1/mcp/ebook-mcp/tools/get_all_epub_files/call" \
+        -H "Content-Type: application/json" \
+        -H "Authorization: Bearer $PROXY_ADMIN_TOKEN" \
+        -d '{"path": 123}'
+    echo
+
+    info "Calling non-existent tool"
+    curl -s -X POST "http://localhost:3000/v1/mcp/ebook-mcp/tools/nonexistent/call" \
+        -H "Content-Type: application/json" \
+        -H "Authorization: Bearer $PROXY_ADMIN_TOKEN" \
+        -d '{}'
+    echo
+}
+
+# 测试虚拟 API Key
+test_virtual_keys_api() {
+    info "Testing virtual keys API..."
+
+    info "Creating virtual key"
+    local response=$(curl -s -X POST http://localhost:3000/v1/keys \
+        -H "Authorization: Bearer $PROXY_ADMIN_TOKEN" \
+        -H "Content-Type: application/json" \
+        -d '{"name": "test", "providers": ["openai"], "models": ["gpt-3.5-*"], "budget": 0.01}')
+    echo "$response"
+    local key_id=$(echo "$response" | sed -n 's/.*"id":"\([^"]*\)".*/\1/p')
+    local key=$(echo "$response" | sed -n 's/.*"key":"\([^"]*\)".*/\1/p')
+
+    info "Chatting with virtual key"
+    curl -s -X POST http://localhost:3000/v1/chat/completions \
+        -H "Content-Type: application/json" \
+        -H "Authorization: Bearer $key" \
+        -d '{"provider": "openai", "model": "gpt-3.5-turbo", "messages": [{"role": "user", "content": "你好"}]}'
+    echo
+
+    info "Using a model the virtual key does not allow"
+    curl -s -X POST http://localhost:3000/v1/chat/completions \
+        -H "Content-Type: application/json" \
+        -H "Authorization: Bearer $key" \
+        -d '{"provider": "openai", "model": "gpt-4o", "messages": [{"role": "user", "content": "你好"}]}'
+    echo
+
+    info "Getting virtual key"
+    curl -s http://localhost:3000/v1/keys/$key_id \
+        -H "Authorization: Bearer $PROXY_ADMIN_TOKEN"
+    echo
+
+    info "Deleting virtual key"
+    curl -s -X DELETE http://localhost:3000/v1/keys/$key_id \
+        -H "Authorization: Bearer $PROXY_ADMIN_TOKEN"
+    echo
+}
+
+# 测试限流（需要在 rate_limits.json 中配置 rpm）
+test_rate_limit_api() {
+    info "Testing rate limiting..."
+
+    for i in 1 2 3 4 5; do
+        curl -s -o /dev/null -w "%{http_code} " -X POST http://localhost:3000/v1/chat/completions \
+            -H "Content-Type: application/json" \
+            -d '{"provider": "ollama", "model": "llama2", "messages": [{"role": "user", "content": "你好"}]}'
+    done
+    echo
+}
+
+# 测试带 provider 前缀的模型 ID 和模型别名（别名需要在 model_aliases.json 中配置）
+test_model_alias_api() {
+    info "Testing provider-prefixed model IDs..."
+
+    curl -s -X POST http://localhost:3000/v1/chat/completions \
+        -H "Content-Type: application/json" \
+        -H "Authorization: Bearer $OPENAI_API_KEY" \
+        -d '{"model": "openai/gpt-3.5-turbo", "messages": [{"role": "user", "content": "你好"}]}'
+    echo
+
+    info "Testing model without provider (inferred from models_meta.json)..."
+
+    curl -s -D - -o /dev/null -X POST http://localhost:3000/v1/chat/completions \
+        -H "Content-Type: application/json" \
+        -H "Authorization: Bearer $OPENAI_API_KEY" \
+        -d '{"model": "gpt-3.5-turbo", "messages": [{"role": "user", "content": "你好"}]}' \
+        | grep -i "^x-proxy-"
+    echo
+
+    info "Testing unknown model without provider"
+
+    curl -s -X POST http://localhost:3000/v1/chat/completions \
+        -H "Content-Type: application/json" \
+        -d '{"model": "no-such-model", "messages": [{"role": "user", "content": "你好"}]}'
+    echo
+
+    info "Testing model alias..."
+
+    curl -s -D - -o /dev/null -X POST http://localhost:3000/v1/chat/completions \
+        -H "Content-Type: application/json" \
+        -d '{"model": "fast", "messages": [{"role": "user", "content": "你好"}]}' \
+        | grep -i "^x-proxy-"
+    echo
+}
+
+# 测试备用模型（需要在 fallbacks.json 中为 openai/gpt-4o 配置备用模型），输出实际响应的 provider 和模型
+test_fallback_api() {
+    info "Testing fallback models..."
+
+    curl -s -D - -o /dev/null -X POST http://localhost:3000/v1/chat/completions \
+        -H "Content-Type: application/json" \
+        -H "Authorization: Bearer $OPENAI_API_KEY" \
+        -d '{"provider": "openai", "model": "gpt-4o", "messages": [{"role": "user", "content": "你好"}]}' \
+        | grep -i "^x-proxy-"
+    echo
+}
+
+# 测试用量统计 API
+test_usage_api() {
+    info "Testing usage API..."
+
+    curl -s http://localhost:3000/v1/usage \
+        -H "Authorization: Bearer $PROXY_ADMIN_TOKEN"
+    echo
+}
+
+# 测试 MCP 服务器管理 API
+test_mcp_servers_api() {
+    info "Testing MCP servers admin API..."
+
+    info "Listing MCP servers"
+    curl -s http://localhost:3000/v1/mcp/servers \
+        -H "Authorization: Bearer $PROXY_ADMIN_TOKEN"
+    echo
+
+    info "Getting ebook-mcp server"
+    curl -s http://localhost:3000/v1/mcp/servers/ebook-mcp \
+        -H "Authorization: Bearer $PROXY_ADMIN_TOKEN"
+    echo
+
+    info "Restarting ebook-mcp server"
+    curl -s -X POST http://localhost:3000/v1/mcp/servers/ebook-mcp/restart \
+        -H "Authorization: Bearer $PROXY_ADMIN_TOKEN"
+    echo
+
+    info "Testing invalid MCP server config"
+    curl -s -X PUT http://localhost:3000/v1/mcp/servers/invalid \
+        -H "Content-Type: application/json" \
+        -H "Authorization: Bearer $PROXY_ADMIN_TOKEN" \
+        -d '{"type": "sse"}'
+    echo
+
+    info "Deleting non-existent MCP server"
+    curl -s -X DELETE http://localhost:3000/v1/mcp/servers/nonexistent \
+        -H "Authorization: Bearer $PROXY_ADMIN_TOKEN"
+    echo
+}
+
+# 测试远程 MCP 服务器（streamable-http 传输），测试中用 node 启动一个本地 HTTP MCP 服务器
+test_mcp_http_transport_api() {
+    info "Testing MCP server over streamable HTTP..."
+
+    node --input-type=module -e "
+        import http from 'http';
+        import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+        import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+        import { ListToolsRequestSchema, CallToolRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+
+        http.createServer(async (req, res) => {
+            // 无状态模式：每个请求使用新的 Server 和 transport
+            const server = new Server({ name: 'http-echo', version: '1.0.0' }, { capabilities: { tools: {} } });
+            server.setRequestHandler(ListToolsRequestSchema, async () => ({
+                tools: [{
+                    name: 'echo',
+                    description: 'Echo the header X-Test and the given text',
+                    inputSchema: { type: 'object', properties: { text: { type: 'string' } }, required: ['text'] }
+                }]
+            }));
+            server.setRequestHandler(CallToolRequestSchema, async request => ({
+                content: [{ type: 'text', text: req.headers['x-test'] + ': ' + request.params.arguments.text }]
+            }));
+            const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });
+            res.on('close', () => server.close());
+            await server.connect(transport);
+            await transport.handleRequest(req, res);
+        }).listen(3100);
+    " &
+    local mcp_pid=$!
+    sleep 2
+
+    info "Adding streamable HTTP MCP server"
+    curl -s -X PUT http://localhost:3000/v1/mcp/servers/http-echo \
+        -H "Content-Type: application/json" \
+        -H "Authorization: Bearer $PROXY_ADMIN_TOKEN" \
+        -d '{"type": "streamable-http", "url": "http://localhost:3100/mcp", "headers": {"X-Test": "proxy"}}'
+    echo
+
+    info "Listing tools of http-echo"
+    curl -s http://localhost:3000/v1/mcp/http-echo/tools \
+        -H "Authorization: Bearer $PROXY_ADMIN_TOKEN"
+    echo
+
+    info "Calling echo tool on http-echo"
+    curl -s -X POST http://localhost:3000/v1/mcp/http-echo/tools/echo/call \
+        -H "Content-Type: application/json" \
+        -H "Authorization: Bearer $PROXY_ADMIN_TOKEN" \
+        -d '{"text": "hello"}'
+    echo
+
+    info "Testing invalid MCP server url"
+    curl -s -X PUT http://localhost:3000/v1/mcp/servers/invalid-url \
+        -H "Content-Type: application/json" \
+        -H "Authorization: Bearer $PROXY_ADMIN_TOKEN" \
+        -d '{"type": "sse", "url": "not a url"}'
+    echo
+
+    info "Removing http-echo"
+    curl -s -X DELETE http://localhost:3000/v1/mcp/servers/http-echo \
+        -H "Authorization: Bearer $PROXY_ADMIN_TOKEN"
+    echo
+
+    kill $mcp_pid
+}
+
+# 测试工具调用审批 API
+test_approvals_api() {
+    info "Testing tool approvals API..."
+
+    info "Listing pending approvals"
+    curl -s http://localhost:3000/v1/chat/approvals
+    echo
+
+    info "Testing non-existent approval"
+    curl -s -X POST http://localhost:3000/v1/chat/approvals/nonexistent \
+        -H "Content-Type: application/json" \
+        -d '{"action": "approve"}'
+    echo
+
+    info "Testing invalid approval action"
+    curl -s -X POST http://localhost:3000/v1/chat/approvals/nonexistent \
+        -H "Content-Type: application/json" \
+        -d '{"action": "maybe"}'
     echo
 }
 
@@ -248,6 +657,16 @@ run_all_tests() {
     test_chat_api
     test_stream_chat_api
     test_mcp_tools_api
+    test_mcp_resources_prompts_api
+    test_mcp_tool_call_api
+    test_mcp_servers_api
+    test_mcp_http_transport_api
+    test_approvals_api
+    test_virtual_keys_api
+    test_usage_api
+    test_rate_limit_api
+    test_fallback_api
+    test_model_alias_api
     
     success "All tests completed!"
 }